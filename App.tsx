@@ -1,28 +1,50 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import * as fabric from 'fabric';
 import Toolbar from './components/Toolbar';
 import PropertiesPanel from './components/PropertiesPanel';
 import PreviewModal from './components/PreviewModal';
 import DataEditorModal from './components/DataEditorModal';
+import ComputedFieldsModal from './components/ComputedFieldsModal';
 import ConfirmationModal from './components/ConfirmationModal';
 import CalibrationModal from './components/CalibrationModal';
 import TemplateManagerModal from './components/TemplateManagerModal';
+import ImportPreviewModal from './components/ImportPreviewModal';
+import LabelGuidesOverlay from './components/LabelGuidesOverlay';
+import GuideSettingsMenu from './components/GuideSettingsMenu';
 import { 
   createFabricCanvas, 
   resizeCanvas,
+  moveObjectBy,
   addStaticText, 
+  addTextFrame,
   addVariableText, 
   addBarcode,
   addQrCode,
+  addMatrixCode,
   addRectangle,
   addCircle,
   addTriangle,
   addLine,
-  serializeCanvas 
+  serializeCanvas,
+  refreshTextLayout,
+  CUSTOM_PROPERTIES
 } from './services/fabricHelper';
-import { DEFAULT_LABEL_SIZE, AVAILABLE_FIELDS as DEFAULT_FIELDS, DPI as BASE_DPI } from './constants';
-import { LabelTemplate, DataField, CsvData } from './types';
-import { ZoomIn, ZoomOut, RefreshCcw, LayoutTemplate, Undo, Redo, Printer, FileJson, FolderOpen, Menu, Settings, Ruler, ScanLine, Library } from 'lucide-react';
+import { migrateLegacyCodes } from './services/codeSymbol';
+import { SnapSettings, DEFAULT_SNAP_SETTINGS, attachSnapping } from './services/snapping';
+import { DEFAULT_LABEL_SHAPE, LABEL_SHAPES, getLabelShape } from './services/labelShape';
+import { readFontFile, registerCustomFont, registerCustomFonts, unregisterCustomFont } from './services/customFonts';
+import { getCustomFonts, saveCustomFont, deleteCustomFont } from './services/storage';
+import { DEFAULT_LABEL_SIZE, DEFAULT_LABEL_GUIDES, AVAILABLE_FIELDS as DEFAULT_FIELDS, DPI as BASE_DPI, MM_TO_PX, LengthUnit, UNIT_INFO, convertLength, convertLengthRounded, isLengthUnit } from './constants';
+import { LabelTemplate, LabelGuides, LabelShape, LabelShapeKind, DataField, CsvData, SheetDefinition, CustomFont, ComputedField } from './types';
+import { ZoomIn, ZoomOut, RefreshCcw, LayoutTemplate, Undo, Redo, Printer, FileJson, FolderOpen, Menu, Settings, Ruler, ScanLine, Library, Magnet, Grid3x3 } from 'lucide-react';
+
+// Arrow key -> nudge direction
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
 
 const App: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -36,6 +58,7 @@ const App: React.FC = () => {
   const [templateName, setTemplateName] = useState('New Label Template');
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [isDataEditorOpen, setIsDataEditorOpen] = useState(false);
+  const [isComputedFieldsOpen, setIsComputedFieldsOpen] = useState(false);
   const [isResetModalOpen, setIsResetModalOpen] = useState(false);
   const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
   const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
@@ -45,6 +68,17 @@ const App: React.FC = () => {
     const saved = localStorage.getItem('labelCraft_ppi');
     return saved ? parseFloat(saved) : 96;
   });
+  const [nudgeStep, setNudgeStep] = useState<number>(() => {
+    const saved = localStorage.getItem('labelCraft_nudge_mm');
+    return saved ? parseFloat(saved) : 0.5;
+  });
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(() => {
+    const saved = localStorage.getItem('labelCraft_snap');
+    return saved ? { ...DEFAULT_SNAP_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SNAP_SETTINGS;
+  });
+  // Read by the canvas handlers, which are attached once
+  const snapSettingsRef = useRef(snapSettings);
+  const [showRulers, setShowRulers] = useState(() => localStorage.getItem('labelCraft_rulers') !== 'false');
 
   const [jsonOutput, setJsonOutput] = useState<LabelTemplate | null>(null);
   const [previewImage, setPreviewImage] = useState<string>('');
@@ -60,15 +94,30 @@ const App: React.FC = () => {
   const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
 
   // Document Config State
-  const [unit, setUnit] = useState<'inch' | 'cm'>('cm');
+  const [unit, setUnit] = useState<LengthUnit>('cm');
   const [labelWidth, setLabelWidth] = useState(DEFAULT_LABEL_SIZE.width);
   const [labelHeight, setLabelHeight] = useState(DEFAULT_LABEL_SIZE.height);
   const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait');
   const [tilingSettings, setTilingSettings] = useState({ rows: 2, cols: 2 });
+  const [labelSheet, setLabelSheet] = useState<SheetDefinition | null>(null);
+  const [labelShape, setLabelShape] = useState<LabelShape>(DEFAULT_LABEL_SHAPE);
+  const [labelGuides, setLabelGuides] = useState<LabelGuides>(DEFAULT_LABEL_GUIDES);
+  const labelGuidesRef = useRef(labelGuides);
+
+  // Uploaded fonts, registered with the browser on startup
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>(() => getCustomFonts());
 
   // Data State
   const [availableFields, setAvailableFields] = useState<DataField[]>(DEFAULT_FIELDS);
   const [csvData, setCsvData] = useState<CsvData | null>(null);
+  const [pendingImportFile, setPendingImportFile] = useState<File | null>(null);
+
+  // Fields derived from each row by the template's expressions, bindable like columns
+  const [computedFields, setComputedFields] = useState<ComputedField[]>([]);
+  const bindableFields = useMemo<DataField[]>(() => [
+    ...availableFields,
+    ...computedFields.map(field => ({ label: `${field.key} (computed)`, value: field.key, computed: true })),
+  ], [availableFields, computedFields]);
 
   // Helper to update layers list
   const updateLayers = useCallback(() => {
@@ -90,7 +139,7 @@ const App: React.FC = () => {
     if (!fabricRef.current || isHistoryLocked.current) return;
     
     // Properties to include in the snapshot
-    const includeProps = ['dataKey', 'isBarcode', 'isQrCode', 'id', 'lockScalingX', 'lockScalingY', 'strokeWidth', 'stroke', 'strokeUniform', 'selectable', 'evented'];
+    const includeProps = [...CUSTOM_PROPERTIES, 'lockScalingX', 'lockScalingY', 'strokeWidth', 'stroke', 'strokeUniform', 'selectable', 'evented'];
     const json = JSON.stringify(fabricRef.current.toObject(includeProps));
 
     // Dedup: Don't push if same as current top state to avoid spam
@@ -114,7 +163,7 @@ const App: React.FC = () => {
       if (activeObjects.length > 0) {
         // Check if any active object is text editing
         const activeGroup = fabricRef.current.getActiveObject();
-        if (activeGroup && (activeGroup.type === 'i-text' || activeGroup.type === 'textbox') && (activeGroup as any).isEditing) {
+        if (activeGroup && (activeGroup.type === 'i-text' || activeGroup.type === 'textbox' || activeGroup.type === 'textframe') && (activeGroup as any).isEditing) {
            return;
         }
 
@@ -216,10 +265,20 @@ const App: React.FC = () => {
         if (e.key === 'Delete' || e.key === 'Backspace') {
             handleDeleteActive();
         }
+
+        // Nudge (Arrow keys, Shift for 10x)
+        const direction = ARROW_DIRECTIONS[e.key];
+        const target = fabricRef.current?.getActiveObject();
+        if (direction && target && !(target instanceof fabric.IText && target.isEditing)) {
+            e.preventDefault();
+            const step = MM_TO_PX(nudgeStep) * (e.shiftKey ? 10 : 1);
+            moveObjectBy(target, direction[0] * step, direction[1] * step);
+            fabricRef.current?.fire('object:modified', { target });
+        }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo, handleDeleteActive]);
+  }, [handleUndo, handleRedo, handleDeleteActive, nudgeStep]);
 
   // Workspace Scroll Zoom
   useEffect(() => {
@@ -262,9 +321,9 @@ const App: React.FC = () => {
       fabricRef.current = canvas;
 
       // Event Listeners
-      const handleSelection = (e: any) => {
-          const selected = e.selected ? e.selected[0] : null;
-          setActiveObject(selected);
+      // Multi-selections are edited as one ActiveSelection
+      const handleSelection = () => {
+          setActiveObject(canvas.getActiveObject() || null);
       };
       
       canvas.on('selection:created', handleSelection);
@@ -296,56 +355,50 @@ const App: React.FC = () => {
         }
       });
 
+      const detachSnapping = attachSnapping(canvas, () => snapSettingsRef.current, () => {
+        const { vertical, horizontal, safeZone } = labelGuidesRef.current;
+        return { x: vertical.map(MM_TO_PX), y: horizontal.map(MM_TO_PX), inset: MM_TO_PX(safeZone) };
+      });
+
       // Save initial state
       saveHistory();
 
       // Cleanup
       return () => {
+        detachSnapping();
         canvas.dispose();
         fabricRef.current = null;
       };
     }
   }, [updateLayers, saveHistory]); 
 
+  // Snap settings
+  useEffect(() => {
+    snapSettingsRef.current = snapSettings;
+    fabricRef.current?.requestRenderAll();
+  }, [snapSettings]);
+
+  useEffect(() => {
+    labelGuidesRef.current = labelGuides;
+  }, [labelGuides]);
+
+  // Stored fonts load asynchronously; text drawn before that used a fallback
+  useEffect(() => {
+    registerCustomFonts(getCustomFonts()).then(() => {
+      if (fabricRef.current) refreshTextLayout(fabricRef.current);
+    });
+  }, []);
+
   // Handle Dimensions or Zoom Change
   useEffect(() => {
     if (fabricRef.current) {
-      // Logic: resizeCanvas expects INCHES.
-      // If our state is in CM, convert to inches for the canvas engine.
-      const wInches = unit === 'cm' ? labelWidth / 2.54 : labelWidth;
-      const hInches = unit === 'cm' ? labelHeight / 2.54 : labelHeight;
-      
-      resizeCanvas(fabricRef.current, wInches, hInches, zoomLevel);
+      resizeCanvas(fabricRef.current, labelWidth, labelHeight, unit, zoomLevel);
     }
   }, [labelWidth, labelHeight, zoomLevel, unit]);
 
-  // CSV Parsing
-  const handleImportCsv = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      if (!text) return;
-
-      const lines = text.split('\n').filter(line => line.trim() !== '');
-      if (lines.length === 0) return;
-
-      const headers = lines[0].split(',').map(h => h.trim());
-      const rows = lines.slice(1).map(line => {
-        const values = line.split(',');
-        return headers.reduce((acc, header, index) => {
-          acc[header] = values[index]?.trim() || '';
-          return acc;
-        }, {} as Record<string, string>);
-      });
-
-      // Update State
-      const newFields = headers.map(h => ({ label: h, value: h }));
-      setAvailableFields(newFields);
-      setCsvData({ headers, rows });
-      
-      alert(`Imported ${rows.length} rows with columns: ${headers.join(', ')}`);
-    };
-    reader.readAsText(file);
+  // Data Import - parsing and confirmation happen in ImportPreviewModal
+  const handleImportData = (file: File) => {
+    setPendingImportFile(file);
   };
 
   const handleUpdateData = (newData: CsvData) => {
@@ -365,27 +418,53 @@ const App: React.FC = () => {
   };
 
   const handleUnitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newUnit = e.target.value as 'inch' | 'cm';
+    const newUnit = e.target.value as LengthUnit;
     if (newUnit === unit) return;
 
-    // Conversion factor
-    // Inch -> CM: * 2.54
-    // CM -> Inch: / 2.54
-    if (newUnit === 'cm') {
-       setLabelWidth(prev => parseFloat((prev * 2.54).toFixed(2)));
-       setLabelHeight(prev => parseFloat((prev * 2.54).toFixed(2)));
-    } else {
-       setLabelWidth(prev => parseFloat((prev / 2.54).toFixed(2)));
-       setLabelHeight(prev => parseFloat((prev / 2.54).toFixed(2)));
-    }
+    setLabelWidth(prev => convertLengthRounded(prev, unit, newUnit));
+    setLabelHeight(prev => convertLengthRounded(prev, unit, newUnit));
     setUnit(newUnit);
   };
 
+  const handleShapeKindChange = (kind: LabelShapeKind) => {
+    // Start rounded corners at a common die radius rather than square
+    setLabelShape(prev => ({ ...prev, kind, cornerRadius: kind === 'rounded' && prev.cornerRadius <= 0 ? 3 : prev.cornerRadius }));
+    // A circle fills a square label
+    if (kind === 'circle') {
+      const side = Math.min(labelWidth, labelHeight);
+      setLabelWidth(side);
+      setLabelHeight(side);
+    }
+  };
+
+  // Corner radius is typed in the label unit but stored in mm
+  const handleCornerRadiusChange = (value: string) => {
+    const radius = parseFloat(value);
+    if (!Number.isFinite(radius) || radius < 0) return;
+    setLabelShape(prev => ({ ...prev, cornerRadius: convertLength(radius, unit, 'mm') }));
+  };
+
+  // Picking a sheet sets the label size and the page layout in one step
+  const handleApplySheet = (sheet: SheetDefinition | null) => {
+    setLabelSheet(sheet);
+    if (!sheet) return;
+
+    const fromMm = (mm: number) => parseFloat(convertLength(mm, 'mm', unit).toFixed(4));
+    setLabelWidth(fromMm(sheet.labelWidth));
+    setLabelHeight(fromMm(sheet.labelHeight));
+    setOrientation(sheet.labelWidth > sheet.labelHeight ? 'landscape' : 'portrait');
+    setTilingSettings({ rows: sheet.rows, cols: sheet.cols });
+  };
+
   // Canvas Handlers
   const handleAddText = useCallback(() => {
     if (fabricRef.current) addStaticText(fabricRef.current);
   }, []);
 
+  const handleAddTextFrame = useCallback(() => {
+    if (fabricRef.current) addTextFrame(fabricRef.current);
+  }, []);
+
   const handleAddVariable = useCallback((key: string) => {
     if (fabricRef.current) addVariableText(fabricRef.current, key);
   }, []);
@@ -398,6 +477,10 @@ const App: React.FC = () => {
     if (fabricRef.current) addQrCode(fabricRef.current, key);
   }, []);
 
+  const handleAddMatrixCode = useCallback((key: string) => {
+    if (fabricRef.current) addMatrixCode(fabricRef.current, key);
+  }, []);
+
   const handleAddImage = useCallback((url: string) => {
     if (fabricRef.current) {
         fabric.Image.fromURL(url, { crossOrigin: 'anonymous' }).then((img) => {
@@ -442,14 +525,18 @@ const App: React.FC = () => {
       dimensions: {
         width: labelWidth,
         height: labelHeight,
-        unit: unit // Save current unit preference
+        unit: unit, // Save current unit preference
+        shape: labelShape
       },
-      objects: objects
+      objects: objects,
+      guides: labelGuides,
+      computedFields
     };
   };
 
-  const handleOpenExportModal = () => {
-    if (!fabricRef.current) return;
+  // Snapshot of the canvas that the export modal previews and prints
+  const captureExportSnapshot = () => {
+    if (!fabricRef.current) return false;
     
     // Generate Preview Image
     const dataUrl = fabricRef.current.toDataURL({
@@ -460,12 +547,22 @@ const App: React.FC = () => {
     setPreviewImage(dataUrl);
 
     const template = prepareTemplateData();
-    if (template) {
-        setJsonOutput(template);
+    if (!template) return false;
+    setJsonOutput(template);
+    return true;
+  };
+
+  const handleOpenExportModal = () => {
+    if (captureExportSnapshot()) {
         setIsPreviewOpen(true);
     }
   };
 
+  // Keep the open export modal in sync when a sheet resizes the label
+  useEffect(() => {
+    if (isPreviewOpen) captureExportSnapshot();
+  }, [labelWidth, labelHeight, unit, labelShape]);
+
   const handleSaveJson = () => {
      const template = prepareTemplateData();
      if (!template) return;
@@ -493,26 +590,23 @@ const App: React.FC = () => {
         // 1. Update Metadata
         setTemplateName(data.templateName);
         
-        const loadedUnit = data.dimensions.unit || 'inch';
-        
-        if (loadedUnit === 'cm') {
-            setUnit('cm');
-            setLabelWidth(data.dimensions.width);
-            setLabelHeight(data.dimensions.height);
-        } else {
-            setUnit('inch');
-            setLabelWidth(data.dimensions.width);
-            setLabelHeight(data.dimensions.height);
-        }
+        // Templates from before units were saved are in inches
+        const loadedUnit = isLengthUnit(data.dimensions.unit) ? data.dimensions.unit : 'inch';
+        setUnit(loadedUnit);
+        setLabelWidth(data.dimensions.width);
+        setLabelHeight(data.dimensions.height);
 
         setOrientation(data.dimensions.width > data.dimensions.height ? 'landscape' : 'portrait');
+        setLabelShape(getLabelShape(data));
+        setLabelGuides({ ...DEFAULT_LABEL_GUIDES, ...data.guides });
+        setComputedFields(data.computedFields || []);
 
         // 2. Clear current
         fabricRef.current.clear();
         fabricRef.current.backgroundColor = '#ffffff';
 
         // 3. Load Objects into Canvas
-        await fabricRef.current.loadFromJSON({ objects: data.objects });
+        await fabricRef.current.loadFromJSON({ objects: migrateLegacyCodes(data.objects) });
 
         // 4. Update UI State
         fabricRef.current.requestRenderAll();
@@ -572,10 +666,7 @@ const App: React.FC = () => {
         
         // 3. Restore Canvas Defaults
         canvas.backgroundColor = '#ffffff';
-        // Logic: resizeCanvas expects INCHES
-        const wInches = unit === 'cm' ? labelWidth / 2.54 : labelWidth;
-        const hInches = unit === 'cm' ? labelHeight / 2.54 : labelHeight;
-        resizeCanvas(canvas, wInches, hInches, zoomLevel);
+        resizeCanvas(canvas, labelWidth, labelHeight, unit, zoomLevel);
         canvas.requestRenderAll();
         
         // 4. Update React State
@@ -614,6 +705,55 @@ const App: React.FC = () => {
     localStorage.setItem('labelCraft_ppi', newPpi.toString());
   };
 
+  const handleNudgeStepChange = (mm: number) => {
+    setNudgeStep(mm);
+    localStorage.setItem('labelCraft_nudge_mm', mm.toString());
+  };
+
+  const handleSnapSettingsChange = (changes: Partial<SnapSettings>) => {
+    const next = { ...snapSettings, ...changes };
+    setSnapSettings(next);
+    localStorage.setItem('labelCraft_snap', JSON.stringify(next));
+  };
+
+  // Grid spacing is typed in the label unit but stored in mm
+  const handleGridSizeChange = (value: string) => {
+    const size = parseFloat(value);
+    if (!Number.isFinite(size) || size <= 0) return;
+    handleSnapSettingsChange({ gridSize: convertLength(size, unit, 'mm') });
+  };
+
+  const handleUploadFont = async (file: File) => {
+    try {
+      const font = await readFontFile(file);
+      // Loading it first rejects files the browser can't use
+      await registerCustomFont(font);
+      try {
+        saveCustomFont(font);
+      } catch (e) {
+        unregisterCustomFont(font.family);
+        throw e;
+      }
+      setCustomFonts(getCustomFonts());
+      if (fabricRef.current) refreshTextLayout(fabricRef.current, font.family);
+    } catch (e) {
+      console.error("Font upload failed", e);
+      alert(e instanceof Error && e.message ? e.message : 'Failed to load font file.');
+    }
+  };
+
+  const handleDeleteFont = (font: CustomFont) => {
+    deleteCustomFont(font.id);
+    unregisterCustomFont(font.family);
+    setCustomFonts(getCustomFonts());
+    if (fabricRef.current) refreshTextLayout(fabricRef.current, font.family);
+  };
+
+  const handleShowRulersChange = (show: boolean) => {
+    setShowRulers(show);
+    localStorage.setItem('labelCraft_rulers', show.toString());
+  };
+
   const handleSetOneToOne = () => {
     const realWorldScale = screenPpi / BASE_DPI;
     setZoomLevel(realWorldScale);
@@ -636,14 +776,17 @@ const App: React.FC = () => {
       >
         <Toolbar 
           onAddText={handleAddText}
+          onAddTextFrame={handleAddTextFrame}
           onAddVariable={handleAddVariable}
           onAddBarcode={handleAddBarcode}
           onAddQrCode={handleAddQrCode}
+          onAddMatrixCode={handleAddMatrixCode}
           onAddImage={handleAddImage}
           onAddShape={handleAddShape}
-          onImportCsv={handleImportCsv}
+          onImportData={handleImportData}
           onOpenDataEditor={() => setIsDataEditorOpen(true)}
-          availableFields={availableFields}
+          onOpenComputedFields={() => setIsComputedFieldsOpen(true)}
+          availableFields={bindableFields}
           onClose={() => setIsMobileMenuOpen(false)}
         />
       </div>
@@ -679,7 +822,7 @@ const App: React.FC = () => {
                     type="number" 
                     value={labelWidth}
                     onChange={(e) => setLabelWidth(Number(e.target.value))}
-                    step={unit === 'inch' ? 0.1 : 0.1}
+                    step={UNIT_INFO[unit].step}
                     className="w-20 text-sm bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-center outline-none focus:border-blue-500 text-zinc-200"
                  />
                </div>
@@ -690,7 +833,7 @@ const App: React.FC = () => {
                     type="number" 
                     value={labelHeight}
                     onChange={(e) => setLabelHeight(Number(e.target.value))}
-                    step={unit === 'inch' ? 0.1 : 0.1}
+                    step={UNIT_INFO[unit].step}
                     className="w-20 text-sm bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-center outline-none focus:border-blue-500 text-zinc-200"
                  />
                </div>
@@ -703,10 +846,39 @@ const App: React.FC = () => {
                >
                   <option value="inch">IN</option>
                   <option value="cm">CM</option>
+                  <option value="mm">MM</option>
+                  <option value="px">PX</option>
                </select>
 
                <div className="w-px h-4 bg-zinc-700 mx-2"></div>
 
+               <select 
+                  value={labelShape.kind} 
+                  onChange={(e) => handleShapeKindChange(e.target.value as LabelShapeKind)}
+                  className="bg-transparent text-xs font-medium text-zinc-500 border-none outline-none cursor-pointer hover:text-blue-400"
+                  title="Label Shape"
+               >
+                  {LABEL_SHAPES.map(shape => <option key={shape.kind} value={shape.kind}>{shape.name}</option>)}
+               </select>
+               {labelShape.kind === 'rounded' && (
+                 <div className="flex items-center gap-1">
+                   <span className="text-xs font-semibold text-zinc-500 uppercase">R:</span>
+                   <input 
+                      type="number" 
+                      min="0"
+                      step={UNIT_INFO[unit].step}
+                      key={`${unit}-${labelShape.cornerRadius}`}
+                      defaultValue={convertLengthRounded(labelShape.cornerRadius, 'mm', unit)}
+                      onBlur={(e) => handleCornerRadiusChange(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                      className="w-14 text-sm bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-center outline-none focus:border-blue-500 text-zinc-200"
+                      title={`Corner radius (${UNIT_INFO[unit].suffix})`}
+                   />
+                 </div>
+               )}
+
+               <div className="w-px h-4 bg-zinc-700 mx-2"></div>
+
                <button 
                  onClick={handleOrientationToggle}
                  className="flex items-center gap-1 text-xs font-medium text-zinc-500 hover:text-blue-400 hover:bg-blue-900/20 px-2 py-1 rounded transition-colors"
@@ -759,10 +931,20 @@ const App: React.FC = () => {
           {/* Canvas Container */}
           {/* The canvas itself must visually remain white as it represents physical paper/labels */}
           <div className="relative shadow-2xl shadow-black bg-white transition-all duration-300 ring-1 ring-zinc-800">
-            <div className="absolute -top-6 left-0 text-xs font-mono text-zinc-500 hidden md:block">
-              {labelWidth}{unit === 'inch' ? '"' : 'cm'} x {labelHeight}{unit === 'inch' ? '"' : 'cm'} @ {Math.round(screenPpi)}PPI ({(zoomLevel * 100).toFixed(0)}%)
+            <div className={`absolute left-0 text-xs font-mono text-zinc-500 hidden md:block whitespace-nowrap ${showRulers ? '-bottom-6' : '-top-6'}`}>
+              {labelWidth}{UNIT_INFO[unit].suffix} x {labelHeight}{UNIT_INFO[unit].suffix} @ {Math.round(screenPpi)}PPI ({(zoomLevel * 100).toFixed(0)}%)
             </div>
             <canvas id="label-canvas" ref={canvasRef} />
+            <LabelGuidesOverlay
+              widthMm={convertLength(labelWidth, unit, 'mm')}
+              heightMm={convertLength(labelHeight, unit, 'mm')}
+              zoom={zoomLevel}
+              unit={unit}
+              guides={labelGuides}
+              shape={labelShape}
+              showRulers={showRulers}
+              onChange={setLabelGuides}
+            />
           </div>
 
         </main>
@@ -812,6 +994,43 @@ const App: React.FC = () => {
 
               <div className="w-px h-6 bg-zinc-700 mx-1"></div>
 
+              <button 
+                onClick={() => handleSnapSettingsChange({ objects: !snapSettings.objects })}
+                className={`p-2 rounded-lg transition-colors ${snapSettings.objects ? 'bg-zinc-800 text-blue-400' : 'hover:bg-zinc-800 text-zinc-300'}`}
+                title="Snap to Label and Objects"
+              >
+                <Magnet size={18} />
+              </button>
+              <button 
+                onClick={() => handleSnapSettingsChange({ grid: !snapSettings.grid })}
+                className={`p-2 rounded-lg transition-colors ${snapSettings.grid ? 'bg-zinc-800 text-blue-400' : 'hover:bg-zinc-800 text-zinc-300'}`}
+                title="Snap to Grid"
+              >
+                <Grid3x3 size={18} />
+              </button>
+              {snapSettings.grid && (
+                <input
+                  type="number"
+                  min="0"
+                  step={UNIT_INFO[unit].step}
+                  key={`${unit}-${snapSettings.gridSize}`}
+                  defaultValue={convertLengthRounded(snapSettings.gridSize, 'mm', unit)}
+                  onBlur={(e) => handleGridSizeChange(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className="w-14 p-1 text-xs font-mono bg-zinc-950 border border-zinc-700 rounded text-zinc-200 outline-none focus:ring-1 focus:ring-blue-500"
+                  title={`Grid spacing (${UNIT_INFO[unit].suffix})`}
+                />
+              )}
+              <GuideSettingsMenu
+                guides={labelGuides}
+                unit={unit}
+                showRulers={showRulers}
+                onChange={setLabelGuides}
+                onShowRulersChange={handleShowRulersChange}
+              />
+
+              <div className="w-px h-6 bg-zinc-700 mx-1"></div>
+
               <button 
                 onClick={() => setIsResetModalOpen(true)}
                 className="p-2 text-zinc-400 hover:text-red-400 hover:bg-red-900/30 rounded-lg transition-colors"
@@ -833,7 +1052,13 @@ const App: React.FC = () => {
             onSelectLayer={handleSelectLayer}
             onDelete={handleDeleteActive}
             onUpdate={() => saveHistory()} 
-            availableFields={availableFields}
+            availableFields={bindableFields}
+            customFonts={customFonts}
+            onUploadFont={handleUploadFont}
+            onDeleteFont={handleDeleteFont}
+            unit={unit}
+            nudgeStep={nudgeStep}
+            onNudgeStepChange={handleNudgeStepChange}
             onClose={() => setIsMobilePropsOpen(false)}
         />
       </div>
@@ -848,15 +1073,31 @@ const App: React.FC = () => {
           csvData={csvData}
           tilingSettings={tilingSettings}
           onTilingChange={(rows, cols) => setTilingSettings({ rows, cols })}
+          labelSheet={labelSheet}
+          onApplySheet={handleApplySheet}
         />
       )}
 
+      <ImportPreviewModal
+        file={pendingImportFile}
+        onClose={() => setPendingImportFile(null)}
+        onConfirm={handleUpdateData}
+      />
+
       <DataEditorModal
         isOpen={isDataEditorOpen}
         onClose={() => setIsDataEditorOpen(false)}
         data={csvData}
         onSave={handleUpdateData}
       />
+
+      <ComputedFieldsModal
+        isOpen={isComputedFieldsOpen}
+        onClose={() => setIsComputedFieldsOpen(false)}
+        fields={computedFields}
+        data={csvData}
+        onSave={setComputedFields}
+      />
       
       <ConfirmationModal
         isOpen={isResetModalOpen}
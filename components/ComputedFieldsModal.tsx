@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComputedField, CsvData } from '../types';
+import { X, Plus, Trash2, Save, Sigma, AlertCircle, ChevronUp, ChevronDown } from 'lucide-react';
+import { EXPRESSION_FUNCTIONS, checkComputedFields, previewComputedFields } from '../services/expressions';
+
+interface ComputedFieldsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fields: ComputedField[];
+  data: CsvData | null;
+  onSave: (fields: ComputedField[]) => void;
+}
+
+const EXAMPLES: ComputedField[] = [
+  { key: 'Expiry', expression: "formatdate([Mfg Date] + 180, 'DD/MM/YYYY')" },
+  { key: 'GS1', expression: "'(01)' & lpad(GTIN, 14) & '(10)' & Lot" },
+  { key: 'Handling', expression: "if(Category = 'Glass', 'FRAGILE', '')" },
+];
+
+const FUNCTION_GROUPS = ['Text', 'Numbers', 'Dates', 'Logic'] as const;
+
+const inputClass = 'p-2 text-sm font-mono bg-zinc-950 border border-zinc-700 rounded-md text-zinc-200 outline-none focus:ring-1 focus:ring-blue-500';
+
+const ComputedFieldsModal: React.FC<ComputedFieldsModalProps> = ({ isOpen, onClose, fields, data, onSave }) => {
+  const [draft, setDraft] = useState<ComputedField[]>([]);
+
+  useEffect(() => {
+    if (isOpen) setDraft(fields.map(field => ({ ...field })));
+  }, [fields, isOpen]);
+
+  const columns = data?.headers || [];
+  const sampleRow = data?.rows[0];
+
+  const errors = useMemo(() => checkComputedFields(draft, columns), [draft, columns]);
+  const previews = useMemo(() => sampleRow ? previewComputedFields(sampleRow, draft) : [], [sampleRow, draft]);
+
+  if (!isOpen) return null;
+
+  const hasErrors = errors.some(error => error !== null);
+
+  const updateField = (index: number, changes: Partial<ComputedField>) => {
+    setDraft(prev => prev.map((field, i) => i === index ? { ...field, ...changes } : field));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    onSave(draft.map(field => ({ key: field.key.trim(), expression: field.expression.trim() })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 rounded-xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-zinc-800">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <div>
+            <h2 className="text-lg font-bold text-zinc-100 flex items-center gap-2">
+              <Sigma size={20} className="text-blue-500" />
+              Computed Fields
+            </h2>
+            <p className="text-xs text-zinc-400 mt-1">
+              Fields worked out from each data row. They are saved with the template and bind like any column.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors text-zinc-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Field List */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {draft.length === 0 && (
+              <div className="p-4 rounded-lg border border-dashed border-zinc-700 text-sm text-zinc-400 space-y-2">
+                <p>No computed fields yet. For example:</p>
+                {EXAMPLES.map(example => (
+                  <p key={example.key} className="font-mono text-xs">
+                    <span className="text-zinc-200">{example.key}</span> = {example.expression}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {draft.map((field, index) => (
+              <div key={index} className="p-3 rounded-lg border border-zinc-800 bg-zinc-950/40 space-y-2">
+                <div className="flex items-start gap-2">
+                  <input
+                    type="text"
+                    value={field.key}
+                    onChange={(e) => updateField(index, { key: e.target.value })}
+                    placeholder="Name"
+                    className={`${inputClass} w-40 shrink-0`}
+                  />
+                  <span className="py-2 text-zinc-500 font-mono">=</span>
+                  <textarea
+                    value={field.expression}
+                    onChange={(e) => updateField(index, { expression: e.target.value })}
+                    placeholder="Expression, e.g. upper(Name)"
+                    rows={2}
+                    spellCheck={false}
+                    className={`${inputClass} flex-1 min-w-0 resize-y`}
+                  />
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => moveField(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 rounded hover:bg-zinc-800 text-zinc-400 disabled:opacity-30 disabled:hover:bg-transparent"
+                      title="Move up"
+                    >
+                      <ChevronUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => moveField(index, 1)}
+                      disabled={index === draft.length - 1}
+                      className="p-1 rounded hover:bg-zinc-800 text-zinc-400 disabled:opacity-30 disabled:hover:bg-transparent"
+                      title="Move down"
+                    >
+                      <ChevronDown size={14} />
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 rounded hover:bg-red-900/30 text-zinc-500 hover:text-red-400"
+                    title="Delete field"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+
+                {errors[index] ? (
+                  <p className="text-xs text-red-400 flex items-center gap-1.5">
+                    <AlertCircle size={12} />
+                    {errors[index]}
+                  </p>
+                ) : previews[index] && (
+                  previews[index].error ? (
+                    <p className="text-xs text-amber-400 flex items-center gap-1.5">
+                      <AlertCircle size={12} />
+                      Row 1: {previews[index].error}
+                    </p>
+                  ) : (
+                    <p className="text-xs font-mono text-zinc-400 truncate">
+                      Row 1 → <span className="text-emerald-400">{previews[index].value || '(blank)'}</span>
+                    </p>
+                  )
+                )}
+              </div>
+            ))}
+
+            <button
+              onClick={() => setDraft(prev => [...prev, { key: '', expression: '' }])}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm font-medium transition-colors border border-zinc-700"
+            >
+              <Plus size={16} />
+              Add Field
+            </button>
+          </div>
+
+          {/* Reference */}
+          <div className="w-72 shrink-0 border-l border-zinc-800 overflow-y-auto p-4 space-y-4 text-xs">
+            <div>
+              <h3 className="font-semibold text-zinc-500 uppercase tracking-wider mb-2">Columns</h3>
+              {columns.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {columns.map(column => (
+                    <span key={column} className="px-1.5 py-0.5 rounded bg-zinc-800 font-mono text-zinc-300">
+                      {/^[\p{L}_][\p{L}\p{N}_]*$/u.test(column) ? column : `[${column}]`}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-zinc-500">Import data to check column names and preview results.</p>
+              )}
+            </div>
+
+            <div className="text-zinc-400 space-y-1 leading-relaxed">
+              <h3 className="font-semibold text-zinc-500 uppercase tracking-wider mb-2">Syntax</h3>
+              <p>Names with spaces go in brackets: <span className="font-mono text-zinc-300">[Lot No]</span></p>
+              <p>Text in quotes: <span className="font-mono text-zinc-300">'FRAGILE'</span></p>
+              <p><span className="font-mono text-zinc-300">&amp;</span> joins text; <span className="font-mono text-zinc-300">+ - * / %</span> do arithmetic.</p>
+              <p>Date + number adds days; date − date gives days.</p>
+              <p>Compare with <span className="font-mono text-zinc-300">= != &lt; &lt;= &gt; &gt;=</span>, combine with <span className="font-mono text-zinc-300">and or not</span>.</p>
+              <p>A field can use the fields above it.</p>
+            </div>
+
+            {FUNCTION_GROUPS.map(group => (
+              <div key={group}>
+                <h3 className="font-semibold text-zinc-500 uppercase tracking-wider mb-2">{group}</h3>
+                <ul className="space-y-1.5">
+                  {EXPRESSION_FUNCTIONS.filter(fn => fn.group === group).map(fn => (
+                    <li key={fn.syntax}>
+                      <div className="font-mono text-zinc-300">{fn.syntax}</div>
+                      <div className="text-zinc-500">{fn.description}</div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-zinc-800 flex justify-end items-center gap-3">
+          {hasErrors && <span className="mr-auto text-xs text-red-400">Fix the fields marked in red to save.</span>}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-zinc-400 hover:bg-zinc-800 rounded-md font-medium text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={hasErrors}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white rounded-md font-medium text-sm shadow-sm flex items-center gap-2"
+          >
+            <Save size={16} />
+            Save Fields
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComputedFieldsModal;
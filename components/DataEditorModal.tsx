@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { CsvData } from '../types';
 import { X, Trash2, Plus, Upload, Save, AlertCircle, FileText, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Eraser } from 'lucide-react';
 import ConfirmationModal from './ConfirmationModal';
+import ImportPreviewModal from './ImportPreviewModal';
+import { DATA_FILE_ACCEPT } from '../services/dataImport';
 
 interface DataEditorModalProps {
   isOpen: boolean;
@@ -18,6 +20,7 @@ const DataEditorModal: React.FC<DataEditorModalProps> = ({ isOpen, onClose, data
   const [currentPage, setCurrentPage] = useState(1);
   const [rowToDelete, setRowToDelete] = useState<number | null>(null);
   const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
+  const [appendFile, setAppendFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Initialize local state when data prop changes, but only if open to save resources
@@ -73,10 +76,7 @@ const DataEditorModal: React.FC<DataEditorModalProps> = ({ isOpen, onClose, data
   };
 
   const handleAddRow = () => {
-    const newRow = headers.reduce((acc, header) => {
-      acc[header] = '';
-      return acc;
-    }, {} as Record<string, string>);
+    const newRow: Record<string, string> = Object.fromEntries(headers.map(header => [header, '']));
     const newRows = [newRow, ...rows]; // Add to top for visibility
     setRows(newRows);
     setCurrentPage(1); // Jump to first page to see new row
@@ -89,47 +89,29 @@ const DataEditorModal: React.FC<DataEditorModalProps> = ({ isOpen, onClose, data
 
   const handleAppendCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      if (!text) return;
-
-      const lines = text.split('\n').filter(line => line.trim() !== '');
-      if (lines.length === 0) return;
+    if (file) setAppendFile(file);
+    // Reset input
+    if (e.target.value) e.target.value = '';
+  };
 
-      const newHeaders = lines[0].split(',').map(h => h.trim());
-      
-      // Validation: Headers must match existing data
-      const headersMatch = newHeaders.length === headers.length && 
-                           newHeaders.every((h, i) => h === headers[i]);
+  const executeAppend = (imported: CsvData) => {
+    const newHeaders = imported.headers;
 
-      if (headers.length > 0 && !headersMatch) {
-        alert(`Header mismatch! Imported CSV must have columns: ${headers.join(', ')}`);
-        return;
-      }
+    // Validation: Headers must match existing data
+    const headersMatch = newHeaders.length === headers.length && 
+                         newHeaders.every((h, i) => h === headers[i]);
 
-      // Parse rows
-      const newRows = lines.slice(1).map(line => {
-        const values = line.split(',');
-        return newHeaders.reduce((acc, header, index) => {
-          acc[header] = values[index]?.trim() || '';
-          return acc;
-        }, {} as Record<string, string>);
-      });
+    if (headers.length > 0 && !headersMatch) {
+      alert(`Header mismatch! Imported data must have columns: ${headers.join(', ')}`);
+      return;
+    }
 
-      // If this was an empty dataset initially, set headers too
-      if (headers.length === 0) {
-        setHeaders(newHeaders);
-      }
+    // If this was an empty dataset initially, set headers too
+    if (headers.length === 0) {
+      setHeaders(newHeaders);
+    }
 
-      setRows(prev => [...prev, ...newRows]);
-      alert(`Appended ${newRows.length} rows.`);
-    };
-    reader.readAsText(file);
-    // Reset input
-    if (e.target.value) e.target.value = '';
+    setRows(prev => [...prev, ...imported.rows]);
   };
 
   return (
@@ -144,7 +126,7 @@ const DataEditorModal: React.FC<DataEditorModalProps> = ({ isOpen, onClose, data
               Manage Data Source
             </h2>
             <p className="text-xs text-zinc-400 mt-1">
-              Edit values directly, add rows, or append more data from CSV.
+              Edit values directly, add rows, or append more data from CSV, Excel or JSON.
             </p>
           </div>
           <button onClick={onClose} className="p-2 hover:bg-zinc-800 rounded-full transition-colors text-zinc-500">
@@ -165,7 +147,7 @@ const DataEditorModal: React.FC<DataEditorModalProps> = ({ isOpen, onClose, data
              <div className="h-6 w-px bg-zinc-700 mx-1"></div>
              <input 
                type="file" 
-               accept=".csv" 
+               accept={DATA_FILE_ACCEPT}
                ref={fileInputRef} 
                className="hidden" 
                onChange={handleAppendCsv}
@@ -175,7 +157,7 @@ const DataEditorModal: React.FC<DataEditorModalProps> = ({ isOpen, onClose, data
                className="flex items-center gap-1.5 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-sm font-medium transition-colors border border-zinc-700"
              >
                <Upload size={16} />
-               Append CSV Data
+               Append Data
              </button>
              <div className="h-6 w-px bg-zinc-700 mx-1"></div>
              <button 
@@ -311,6 +293,14 @@ const DataEditorModal: React.FC<DataEditorModalProps> = ({ isOpen, onClose, data
            confirmLabel="Delete"
         />
 
+        {/* Append Preview */}
+        <ImportPreviewModal
+           file={appendFile}
+           onClose={() => setAppendFile(null)}
+           onConfirm={executeAppend}
+           confirmLabel="Append"
+        />
+
         {/* Clear All Confirmation Modal */}
         <ConfirmationModal 
            isOpen={isClearConfirmOpen}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { SquareDashed, Trash2 } from 'lucide-react';
+import { LabelGuides } from '../types';
+import { LengthUnit, UNIT_INFO, convertLength, convertLengthRounded } from '../constants';
+
+interface GuideSettingsMenuProps {
+  guides: LabelGuides;
+  unit: LengthUnit;
+  showRulers: boolean;
+  onChange: (guides: LabelGuides) => void;
+  onShowRulersChange: (show: boolean) => void;
+}
+
+type InsetField = 'safeZone' | 'bleed';
+
+const INSET_FIELDS: { key: InsetField; label: string; hint: string }[] = [
+  { key: 'safeZone', label: 'Safe zone', hint: 'Keep critical content inside this inset' },
+  { key: 'bleed', label: 'Bleed', hint: 'Extend backgrounds this far past the edge' },
+];
+
+const GuideSettingsMenu: React.FC<GuideSettingsMenuProps> = ({ guides, unit, showRulers, onChange, onShowRulersChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const guideCount = guides.vertical.length + guides.horizontal.length;
+
+  // Insets are typed in the label unit but stored in mm
+  const handleInsetChange = (key: InsetField, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    onChange({ ...guides, [key]: convertLength(parsed, unit, 'mm') });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-colors ${isOpen ? 'bg-zinc-800 text-blue-400' : 'hover:bg-zinc-800 text-zinc-300'}`}
+        title="Rulers & Guides"
+      >
+        <SquareDashed size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-60 bg-zinc-900 border border-zinc-700 rounded-xl shadow-xl shadow-black/50 p-3 space-y-3">
+          <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showRulers}
+              onChange={(e) => onShowRulersChange(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Show rulers
+          </label>
+
+          {INSET_FIELDS.map(field => (
+            <div key={field.key}>
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-xs text-zinc-400">{field.label} ({UNIT_INFO[unit].suffix})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={UNIT_INFO[unit].step}
+                  key={`${unit}-${guides[field.key]}`}
+                  defaultValue={convertLengthRounded(guides[field.key], 'mm', unit)}
+                  onBlur={(e) => handleInsetChange(field.key, e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className="w-16 p-1 text-xs font-mono bg-zinc-950 border border-zinc-700 rounded text-zinc-200 outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <p className="text-[10px] text-zinc-600 mt-0.5">{field.hint}</p>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between pt-2 border-t border-zinc-800">
+            <span className="text-[11px] text-zinc-500">
+              {guideCount ? `${guideCount} guide${guideCount > 1 ? 's' : ''}` : 'Drag from a ruler to add guides'}
+            </span>
+            {guideCount > 0 && (
+              <button
+                onClick={() => onChange({ ...guides, vertical: [], horizontal: [] })}
+                className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-red-900/30"
+                title="Remove all guides"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuideSettingsMenu;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { X, FileText, FileSpreadsheet, FileJson, AlertTriangle, CheckCircle, Upload } from 'lucide-react';
+import { CsvData } from '../types';
+import {
+  CsvDelimiter,
+  ImportParseResult,
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  readFileAsArrayBuffer,
+  decodeText,
+  parseCsv
+} from '../services/csvParser';
+import { ImportSourceKind, detectImportKind, readWorkbook, parseSheet, parseJsonRecords } from '../services/dataImport';
+
+interface ImportPreviewModalProps {
+  file: File | null; // Modal is open while a file is pending
+  onClose: () => void;
+  onConfirm: (data: CsvData) => void;
+  confirmLabel?: string;
+}
+
+const PREVIEW_ROWS = 20;
+
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
+  file,
+  onClose,
+  onConfirm,
+  confirmLabel = 'Import'
+}) => {
+  const [kind, setKind] = useState<ImportSourceKind>('csv');
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [result, setResult] = useState<ImportParseResult | null>(null);
+  const [summary, setSummary] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  // CSV Options
+  const [encoding, setEncoding] = useState<string>('auto');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter | 'auto'>('auto');
+
+  // Spreadsheet Options
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState<string>('');
+  const [headerRow, setHeaderRow] = useState<number>(1);
+
+  // Read the raw bytes once per file so option changes can re-parse
+  useEffect(() => {
+    setBuffer(null);
+    setResult(null);
+    setError(null);
+    setWorkbook(null);
+    setEncoding('auto');
+    setDelimiter('auto');
+    setHeaderRow(1);
+    if (!file) return;
+
+    const sourceKind = detectImportKind(file);
+    setKind(sourceKind);
+
+    // A newer file may be picked while a large one is still being read
+    let ignore = false;
+    readFileAsArrayBuffer(file)
+      .then((buf) => {
+        if (ignore) return;
+        if (sourceKind === 'xlsx') {
+          const wb = readWorkbook(buf);
+          setWorkbook(wb);
+          setSheetName(wb.SheetNames[0] || '');
+        }
+        setBuffer(buf);
+      })
+      .catch((e) => {
+        console.error("Failed to read file", e);
+        if (!ignore) setError("Could not read the selected file.");
+      });
+    return () => { ignore = true; };
+  }, [file]);
+
+  // Re-parse whenever the source or parse options change
+  useEffect(() => {
+    if (!buffer) return;
+    try {
+      if (kind === 'xlsx') {
+        if (!workbook) return;
+        setResult(parseSheet(workbook, sheetName, headerRow));
+        setSummary(`Sheet "${sheetName}" \u2022 Header row ${headerRow}`);
+      } else if (kind === 'json') {
+        setResult(parseJsonRecords(decodeText(buffer, 'auto').text));
+        setSummary('JSON records');
+      } else {
+        const decoded = decodeText(buffer, encoding);
+        const parsed = parseCsv(decoded.text, { delimiter });
+        const delimiterLabel = CSV_DELIMITERS.find(d => d.value === parsed.delimiter)?.label;
+        const encodingLabel = CSV_ENCODINGS.find(e => e.value === decoded.encoding)?.label || decoded.encoding;
+        setResult(parsed);
+        setSummary(`${delimiterLabel} \u2022 ${encodingLabel}`);
+      }
+      setError(null);
+    } catch (e) {
+      console.error("Failed to parse import file", e);
+      setError(kind === 'csv' ? `Could not decode the file as ${encoding}.` : "Could not parse the selected file.");
+      setResult(null);
+    }
+  }, [buffer, kind, encoding, delimiter, workbook, sheetName, headerRow]);
+
+  if (!file) return null;
+
+  const data = result?.data;
+  const canImport = !!data && data.headers.length > 0;
+  const SourceIcon = kind === 'xlsx' ? FileSpreadsheet : kind === 'json' ? FileJson : FileText;
+
+  const handleConfirm = () => {
+    if (!data || !canImport) return;
+    onConfirm(data);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-[60] flex items-center justify-center backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 rounded-xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200 border border-zinc-800">
+
+        {/* Header */}
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between bg-zinc-900">
+          <div className="min-w-0">
+            <h3 className="font-bold text-zinc-100 flex items-center gap-2">
+              <SourceIcon className="text-blue-500" size={20} />
+              Import Preview
+            </h3>
+            <p className="text-xs text-zinc-400 mt-1 truncate">{file.name}</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Parse Options */}
+        <div className="p-4 border-b border-zinc-800 bg-zinc-900 grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          {kind === 'csv' && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-zinc-500 mb-1">Encoding</label>
+                <select
+                  value={encoding}
+                  onChange={(e) => setEncoding(e.target.value)}
+                  className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="auto">Auto-detect</option>
+                  {CSV_ENCODINGS.map(enc => (
+                    <option key={enc.value} value={enc.value}>{enc.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-zinc-500 mb-1">Delimiter</label>
+                <select
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value as CsvDelimiter | 'auto')}
+                  className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="auto">Auto-detect</option>
+                  {CSV_DELIMITERS.map(d => (
+                    <option key={d.label} value={d.value}>{d.label}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          {kind === 'xlsx' && workbook && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-zinc-500 mb-1">Sheet</label>
+                <select
+                  value={sheetName}
+                  onChange={(e) => setSheetName(e.target.value)}
+                  className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {workbook.SheetNames.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-zinc-500 mb-1">Header Row</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={headerRow}
+                  onChange={(e) => setHeaderRow(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </div>
+            </>
+          )}
+          {kind === 'json' && (
+            <div className="col-span-2 text-xs text-zinc-500 leading-snug">
+              Each object becomes a row. Nested fields are flattened into dotted column names (e.g. <span className="font-mono">size.width</span>).
+            </div>
+          )}
+          <div className="col-span-2 text-xs font-mono text-zinc-500 md:text-right">
+            {data && (
+              <>
+                {data.rows.length} Rows &bull; {data.headers.length} Columns
+                <div className="mt-1 text-zinc-600">{summary}</div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Warnings */}
+        {(error || (result && result.warnings.length > 0)) && (
+          <div className="px-4 py-3 border-b border-zinc-800 bg-amber-900/10 max-h-36 overflow-y-auto">
+            {error ? (
+              <div className="flex items-center gap-2 text-sm text-red-400">
+                <AlertTriangle size={14} /> {error}
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 text-xs font-bold text-amber-400 mb-1">
+                  <AlertTriangle size={14} />
+                  {result!.warnings.length} parse warning{result!.warnings.length === 1 ? '' : 's'}
+                </div>
+                <ul className="list-disc pl-6 space-y-0.5 text-xs text-amber-300/80">
+                  {result!.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+        {result && !error && result.warnings.length === 0 && (
+          <div className="px-4 py-2 border-b border-zinc-800 bg-emerald-900/10 flex items-center gap-2 text-xs text-emerald-400">
+            <CheckCircle size={14} /> File parsed without warnings.
+          </div>
+        )}
+
+        {/* Preview Table */}
+        <div className="flex-1 overflow-auto bg-zinc-950">
+          {data && data.headers.length > 0 ? (
+            <table className="w-full text-sm text-left border-collapse">
+              <thead className="text-xs text-zinc-300 uppercase bg-zinc-900 sticky top-0 shadow-sm z-10">
+                <tr>
+                  <th className="px-4 py-3 border-b border-r border-zinc-800 w-12 text-center bg-zinc-900">#</th>
+                  {data.headers.map(header => (
+                    <th key={header} className="px-4 py-3 border-b border-r border-zinc-800 bg-zinc-900 whitespace-nowrap">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                  <tr key={idx} className="bg-zinc-950 hover:bg-zinc-900 transition-colors">
+                    <td className="px-2 py-2 border-b border-r border-zinc-800 text-center text-xs text-zinc-600 font-mono">{idx + 1}</td>
+                    {data.headers.map(header => (
+                      <td key={header} className="px-4 py-2 border-b border-r border-zinc-800 text-zinc-300 whitespace-pre-wrap align-top">
+                        {row[header]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="flex items-center justify-center h-full text-zinc-600 text-sm">
+              {buffer ? 'No columns found.' : 'Reading file...'}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-zinc-800 bg-zinc-900 flex justify-between items-center gap-3">
+          <span className="text-xs text-zinc-500">
+            {data && data.rows.length > PREVIEW_ROWS && `Showing first ${PREVIEW_ROWS} of ${data.rows.length} rows.`}
+          </span>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-zinc-400 hover:bg-zinc-800 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!canImport}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium shadow-sm transition-colors flex items-center gap-2 disabled:bg-zinc-700 disabled:cursor-not-allowed"
+            >
+              <Upload size={16} />
+              {confirmLabel} {data ? `${data.rows.length} Rows` : ''}
+            </button>
+          </div>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewModal;
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LabelGuides, LabelShape } from '../types';
+import { LengthUnit, UNIT_INFO, MM_TO_PX, convertLength, convertLengthRounded } from '../constants';
+import { getOutlinePath, getShapeOutline } from '../services/labelShape';
+
+interface LabelGuidesOverlayProps {
+  widthMm: number;
+  heightMm: number;
+  zoom: number;
+  unit: LengthUnit;
+  guides: LabelGuides;
+  shape: LabelShape;
+  showRulers: boolean;
+  onChange: (guides: LabelGuides) => void;
+}
+
+type GuideAxis = 'vertical' | 'horizontal';
+
+// A guide being dragged; index is null for one pulled out of a ruler
+interface GuideDrag {
+  axis: GuideAxis;
+  index: number | null;
+  position: number; // mm
+}
+
+const RULER_SIZE = 20; // CSS px
+const MIN_MAJOR_SPACING = 48; // CSS px between labelled ticks
+
+/**
+ * Labelled tick interval in the unit: the smallest 1/2/5 x 10^n step that
+ * keeps the labels apart at this scale.
+ */
+const getMajorStep = (pxPerUnit: number) => {
+  for (let exp = -3; exp <= 6; exp++) {
+    for (const base of [1, 2, 5]) {
+      const step = base * 10 ** exp;
+      if (step * pxPerUnit >= MIN_MAJOR_SPACING) return step;
+    }
+  }
+  return 10 ** 7;
+};
+
+const formatTick = (value: number) => parseFloat(value.toFixed(3)).toString();
+
+interface RulerProps {
+  side: 'top' | 'left';
+  lengthPx: number; // CSS px
+  pxPerUnit: number; // CSS px per label unit
+  onMouseDown: (e: React.MouseEvent) => void;
+}
+
+const Ruler: React.FC<RulerProps> = ({ side, lengthPx, pxPerUnit, onMouseDown }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const horizontal = side === 'top';
+  const width = horizontal ? lengthPx : RULER_SIZE;
+  const height = horizontal ? RULER_SIZE : lengthPx;
+
+  useEffect(() => {
+    const el = canvasRef.current;
+    const ctx = el?.getContext('2d');
+    if (!el || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    el.width = Math.round(width * ratio);
+    el.height = Math.round(height * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.fillStyle = '#18181b';
+    ctx.fillRect(0, 0, width, height);
+
+    // Ticks are drawn along x; the left ruler is the same drawing turned a quarter
+    if (!horizontal) {
+      ctx.translate(RULER_SIZE, 0);
+      ctx.rotate(Math.PI / 2);
+    }
+    const edge = horizontal ? RULER_SIZE : 0; // Side touching the label
+    const inward = horizontal ? -1 : 1;
+
+    const major = getMajorStep(pxPerUnit);
+    const divisions = [10, 5, 2].find(d => major * pxPerUnit / d >= 5) ?? 1;
+    const minor = major / divisions;
+    const count = Math.floor(lengthPx / (minor * pxPerUnit) + 1e-6);
+
+    ctx.strokeStyle = '#52525b';
+    ctx.fillStyle = '#a1a1aa';
+    ctx.font = '9px ui-monospace, monospace';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 0; i <= count; i++) {
+      const at = Math.round(i * minor * pxPerUnit) + 0.5;
+      const isMajor = i % divisions === 0;
+      const isHalf = divisions === 10 && i % 5 === 0;
+      const size = isMajor ? RULER_SIZE : isHalf ? RULER_SIZE / 2 : RULER_SIZE / 4;
+      ctx.moveTo(at, edge);
+      ctx.lineTo(at, edge + inward * size);
+      if (isMajor) ctx.fillText(formatTick(i * minor), at + 3, horizontal ? 9 : RULER_SIZE - 3);
+    }
+    ctx.stroke();
+  }, [horizontal, width, height, lengthPx, pxPerUnit]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onMouseDown={onMouseDown}
+      className={`absolute pointer-events-auto ${horizontal ? 'cursor-row-resize' : 'cursor-col-resize'}`}
+      style={{
+        width,
+        height,
+        top: horizontal ? -RULER_SIZE : 0,
+        left: horizontal ? 0 : -RULER_SIZE,
+      }}
+      title="Drag onto the label to add a guide"
+    />
+  );
+};
+
+/**
+ * Rulers, draggable guide lines, the die-cut outline and the safe zone and
+ * bleed lines that follow it, drawn over the canvas in screen space. Guides
+ * are dragged out of the rulers and removed by dragging them off the label.
+ */
+const LabelGuidesOverlay: React.FC<LabelGuidesOverlayProps> = ({ widthMm, heightMm, zoom, unit, guides, shape, showRulers, onChange }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<GuideDrag | null>(null);
+
+  const scale = MM_TO_PX(1) * zoom; // CSS px per mm
+  const pxPerUnit = convertLength(1, unit, 'px') * zoom;
+  const width = widthMm * scale;
+  const height = heightMm * scale;
+
+  const box = { x: 0, y: 0, width, height };
+  const cutPath = getOutlinePath(getShapeOutline(shape, box, scale));
+  const isShaped = shape.kind !== 'rectangle';
+
+  const toMm = (axis: GuideAxis, e: { clientX: number; clientY: number }) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    return (axis === 'vertical' ? e.clientX - rect.left : e.clientY - rect.top) / scale;
+  };
+
+  const startDrag = (e: React.MouseEvent, axis: GuideAxis, index: number | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ axis, index, position: toMm(axis, e) });
+  };
+
+  // Listen on the window so the pointer can leave the label while dragging
+  const dragKey = drag ? `${drag.axis}:${drag.index}` : null;
+  useEffect(() => {
+    if (!drag) return;
+    const { axis, index } = drag;
+
+    const handleMove = (e: MouseEvent) => {
+      setDrag(prev => prev && { ...prev, position: toMm(axis, e) });
+    };
+
+    const handleUp = (e: MouseEvent) => {
+      const position = toMm(axis, e);
+      const limit = axis === 'vertical' ? widthMm : heightMm;
+      const lines = guides[axis].filter((_, i) => i !== index);
+      if (position >= 0 && position <= limit) lines.push(Math.round(position * 100) / 100);
+      onChange({ ...guides, [axis]: lines });
+      setDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [dragKey, guides, scale, widthMm, heightMm, onChange]);
+
+  const renderGuide = (axis: GuideAxis, position: number, key: string, index: number | null) => {
+    const vertical = axis === 'vertical';
+    const isDragged = index === null;
+    const outside = position < 0 || position > (vertical ? widthMm : heightMm);
+    return (
+      <div
+        key={key}
+        onMouseDown={isDragged ? undefined : (e) => startDrag(e, axis, index)}
+        className={`absolute flex justify-center ${vertical ? 'top-0 bottom-0 w-[7px] -ml-[3px] cursor-col-resize' : 'left-0 right-0 h-[7px] -mt-[3px] flex-col cursor-row-resize'} ${isDragged ? '' : 'pointer-events-auto'} ${outside ? 'opacity-30' : ''}`}
+        style={vertical ? { left: position * scale } : { top: position * scale }}
+      >
+        <div className={`bg-cyan-500 ${vertical ? 'w-px h-full' : 'h-px w-full'}`} />
+        {isDragged && (
+          <span className="absolute left-2 top-2 px-1 rounded bg-zinc-900 text-[10px] font-mono text-cyan-400 whitespace-nowrap">
+            {convertLengthRounded(position, 'mm', unit)}{UNIT_INFO[unit].suffix}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none z-10">
+      <svg className="absolute top-0 left-0 overflow-visible" width={width} height={height}>
+        {isShaped && (
+          <>
+            {/* Dims everything outside the die cut */}
+            <path d={`M 0 0 H ${width} V ${height} H 0 Z ${cutPath}`} fillRule="evenodd" fill="rgba(9, 9, 11, 0.6)" />
+            <path d={cutPath} fill="none" stroke="#a1a1aa" strokeWidth={1} />
+          </>
+        )}
+        {guides.bleed > 0 && (
+          <path d={getOutlinePath(getShapeOutline(shape, box, scale, guides.bleed))} fill="none" stroke="#ef4444" strokeOpacity={0.8} strokeDasharray="4 3">
+            <title>Bleed</title>
+          </path>
+        )}
+        {guides.safeZone > 0 && (
+          <path d={getOutlinePath(getShapeOutline(shape, box, scale, -guides.safeZone))} fill="none" stroke="#10b981" strokeOpacity={0.8} strokeDasharray="4 3">
+            <title>Safe zone</title>
+          </path>
+        )}
+      </svg>
+
+      {guides.vertical.map((x, i) => drag?.axis === 'vertical' && drag.index === i ? null : renderGuide('vertical', x, `v${i}`, i))}
+      {guides.horizontal.map((y, i) => drag?.axis === 'horizontal' && drag.index === i ? null : renderGuide('horizontal', y, `h${i}`, i))}
+      {drag && renderGuide(drag.axis, drag.position, 'drag', null)}
+
+      {showRulers && (
+        <>
+          <div
+            className="absolute bg-zinc-900 text-[9px] font-mono text-zinc-500 flex items-center justify-center"
+            style={{ top: -RULER_SIZE, left: -RULER_SIZE, width: RULER_SIZE, height: RULER_SIZE }}
+          >
+            {UNIT_INFO[unit].suffix}
+          </div>
+          <Ruler side="top" lengthPx={width} pxPerUnit={pxPerUnit} onMouseDown={(e) => startDrag(e, 'vertical', null)} />
+          <Ruler side="left" lengthPx={height} pxPerUnit={pxPerUnit} onMouseDown={(e) => startDrag(e, 'horizontal', null)} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LabelGuidesOverlay;
@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface LabelPreviewImageProps {
+  rowIndex: number;
+  // Resolves to null when the request was dropped because the cell went away first
+  loadImage: (rowIndex: number, isCancelled: () => boolean) => Promise<string | null>;
+  placeholder: string; // Shown dimmed until the rendered label arrives
+}
+
+const LabelPreviewImage: React.FC<LabelPreviewImageProps> = ({ rowIndex, loadImage, placeholder }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setFailed(false);
+    loadImage(rowIndex, () => cancelled)
+      .then(url => { if (!cancelled && url) setSrc(url); })
+      .catch(e => {
+        console.error("Failed to render label preview", e);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [rowIndex, loadImage]);
+
+  if (failed) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-1 text-[10px] text-red-500 bg-red-50">
+        <AlertTriangle size={14} />
+        Render failed
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={src || placeholder}
+      alt={`Label for row ${rowIndex + 1}`}
+      className={`w-full h-full object-fill transition-opacity ${src ? 'opacity-100' : 'opacity-30'}`}
+      draggable={false}
+    />
+  );
+};
+
+export default LabelPreviewImage;
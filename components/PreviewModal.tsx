@@ -1,8 +1,25 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { jsPDF } from 'jspdf';
-import { LabelTemplate, CsvData } from '../types';
-import { generateLabelImage } from '../services/fabricHelper';
-import { X, Grid3X3, Database, Printer, AlertTriangle, Settings2, Maximize2, ZoomIn, ZoomOut, CheckCircle, Minimize2 } from 'lucide-react';
+import { LabelTemplate, CsvData, SheetDefinition, PrinterProfile } from '../types';
+import { LengthUnit, UNIT_INFO, convertLength, convertLengthRounded, isLengthUnit } from '../constants';
+import { createLabelCanvas, generateLabelImage } from '../services/fabricHelper';
+import { drawLabel, getVectorIssues, traceOutline, LabelRotation } from '../services/pdfVectorExport';
+import { getLabelShape, getShapeOutline } from '../services/labelShape';
+import { validateBarcodeData } from '../services/barcodeSymbology';
+import { addComputedFields } from '../services/expressions';
+import { SHEET_PRESETS, LabelSlot, getSheetSlots, parseSheetDefinitions, getLabelPlacement, countPages } from '../services/sheetLayout';
+import { getCustomSheets, saveCustomSheet, deleteCustomSheet, getPrinterProfiles, savePrinterProfile, deletePrinterProfile, getActivePrinterProfileId, setActivePrinterProfileId } from '../services/storage';
+import { applyPrinterProfile } from '../services/printCalibration';
+import { CopyOrder, CopySettings, DEFAULT_COPY_SETTINGS, buildPrintSequence, findInvalidQuantities, groupPrintSequence } from '../services/printJob';
+import { PrinterDpi, PRINTER_DPI_OPTIONS } from '../services/thermalLayout';
+import { generateZpl } from '../services/zplExport';
+import { generateTspl } from '../services/tsplExport';
+import { generateEpl } from '../services/eplExport';
+import SheetEditorModal from './SheetEditorModal';
+import ConfirmationModal from './ConfirmationModal';
+import PrinterCalibrationModal from './PrinterCalibrationModal';
+import LabelPreviewImage from './LabelPreviewImage';
+import { X, Grid3X3, Database, Printer, AlertTriangle, Settings2, Maximize2, ZoomIn, ZoomOut, CheckCircle, Minimize2, FileText, SkipForward, Copy, LayoutGrid, Plus, Pencil, Trash2, Download, Upload, ChevronLeft, ChevronRight, Info, Zap, Crosshair } from 'lucide-react';
 
 interface PreviewModalProps {
   isOpen: boolean;
@@ -12,12 +29,22 @@ interface PreviewModalProps {
   csvData: CsvData | null;
   tilingSettings: { rows: number; cols: number };
   onTilingChange: (rows: number, cols: number) => void;
+  labelSheet: SheetDefinition | null; // null = centered custom grid
+  onApplySheet: (sheet: SheetDefinition | null) => void;
 }
 
-type PaperSize = 'letter' | 'a4';
+type PaperSize = 'letter' | 'a4' | 'roll'; // roll: one label per page, page = label size
 type Orientation = 'portrait' | 'landscape';
+type PdfOutput = 'vector' | 'raster';
+type PrinterLanguage = 'zpl' | 'tspl' | 'epl';
 
-const PAGE_DIMENSIONS: Record<PaperSize, { w: number, h: number }> = {
+const PRINTER_LANGUAGES: Record<PrinterLanguage, { name: string, extension: string }> = {
+  zpl: { name: 'ZPL II (Zebra)', extension: 'zpl' },
+  tspl: { name: 'TSPL (TSC)', extension: 'tspl' },
+  epl: { name: 'EPL2 (Eltron)', extension: 'epl' },
+};
+
+const PAGE_DIMENSIONS: Record<Exclude<PaperSize, 'roll'>, { w: number, h: number }> = {
   letter: { w: 215.9, h: 279.4 }, // mm
   a4: { w: 210, h: 297 } // mm
 };
@@ -25,13 +52,16 @@ const PAGE_DIMENSIONS: Record<PaperSize, { w: number, h: number }> = {
 // Safe printing margin (hardware limits for most printers)
 const PRINT_MARGIN_MM = 6; 
 
+// Preview cells are small; print output renders at LABEL_EXPORT_MULTIPLIER
+const PREVIEW_MULTIPLIER = 2;
+
+// Label size differences below this are vendor rounding, not a mismatch
+const SHEET_SIZE_TOLERANCE_MM = 0.5;
+
+const SHEET_VENDORS = Array.from(new Set(SHEET_PRESETS.map(sheet => sheet.vendor)));
+
 // Helper to convert arbitrary unit to mm for PDF generation
-const getMm = (val: number, unit: string) => {
-    if (unit === 'inch') return val * 25.4;
-    if (unit === 'cm') return val * 10;
-    if (unit === 'mm') return val;
-    return val; // Fallback
-};
+const getMm = (val: number, unit: string) => convertLength(val, isLengthUnit(unit) ? unit : 'inch', 'mm');
 
 const PreviewModal: React.FC<PreviewModalProps> = ({ 
   isOpen, 
@@ -40,64 +70,179 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
   previewImage,
   csvData,
   tilingSettings,
-  onTilingChange
+  onTilingChange,
+  labelSheet,
+  onApplySheet
 }) => {
   const [activeTab, setActiveTab] = useState<'preview' | 'data'>('preview');
   
   // Paper Settings
   const [paperSize, setPaperSize] = useState<PaperSize>('letter');
   const [paperOrientation, setPaperOrientation] = useState<Orientation>('portrait');
+  const [rollRotation, setRollRotation] = useState<LabelRotation>(0);
   
   // Layout Settings
-  const [gapX, setGapX] = useState<number>(0.125); // inches
-  const [gapY, setGapY] = useState<number>(0.125); // inches
+  const [gapX_mm, setGapX] = useState<number>(3.175); // Shown in the template's unit
+  const [gapY_mm, setGapY] = useState<number>(3.175);
   const [autoScale, setAutoScale] = useState<boolean>(true);
+  const [startPosition, setStartPosition] = useState(0); // Used positions to skip on the first sheet
+  const [copySettings, setCopySettings] = useState<CopySettings>(DEFAULT_COPY_SETTINGS);
+
+  // Output Settings
+  const [pdfOutput, setPdfOutput] = useState<PdfOutput>('vector');
+  const [drawCutLine, setDrawCutLine] = useState(false);
+  const [vectorIssues, setVectorIssues] = useState<string[]>([]);
+  const [printerDpi, setPrinterDpi] = useState<PrinterDpi>(203);
+  const [printerLanguage, setPrinterLanguage] = useState<PrinterLanguage>('zpl');
+  const [labelGap, setLabelGap] = useState<number>(3); // mm between labels on the roll
 
   // View Settings (Pan/Zoom)
   const [viewZoom, setViewZoom] = useState(1);
   const [viewPan, setViewPan] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const startPanRef = useRef({ x: 0, y: 0 });
+  const pressPointRef = useRef({ x: 0, y: 0 });
   const previewContainerRef = useRef<HTMLDivElement>(null);
 
   const [isGenerating, setIsGenerating] = useState(false);
 
+  // Preview Paging
+  const [previewPage, setPreviewPage] = useState(0);
+  const [inspectedSlot, setInspectedSlot] = useState<number | null>(null);
+  const renderQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Label Sheets
+  const [customSheets, setCustomSheets] = useState<SheetDefinition[]>([]);
+  const [isSheetEditorOpen, setIsSheetEditorOpen] = useState(false);
+  const [sheetToEdit, setSheetToEdit] = useState<SheetDefinition | null>(null);
+  const [sheetToDelete, setSheetToDelete] = useState<SheetDefinition | null>(null);
+  const sheetInputRef = useRef<HTMLInputElement>(null);
+
+  // Printer Calibration
+  const [printerProfiles, setPrinterProfiles] = useState<PrinterProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
+  const [profileToEdit, setProfileToEdit] = useState<PrinterProfile | null>(null);
+  const [profileToDelete, setProfileToDelete] = useState<PrinterProfile | null>(null);
+  const [failedProfileSave, setFailedProfileSave] = useState<{ profile: PrinterProfile; message: string } | null>(null);
+
+  // Every data row checked against every bound barcode's symbology, computed fields included
+  const barcodeIssues = useMemo(() => (
+    isOpen && csvData ? validateBarcodeData(templateData.objects, {
+      ...csvData,
+      rows: csvData.rows.map(row => addComputedFields(row, templateData.computedFields)),
+    }) : []
+  ), [isOpen, csvData, templateData]);
+
+  const issueByCell = useMemo(() => {
+    const map = new Map<string, string>();
+    barcodeIssues.forEach(issue => map.set(`${issue.rowIndex}:${issue.dataKey}`, issue.message));
+    return map;
+  }, [barcodeIssues]);
+
+  // Data rows to print (one blank label without data) and their print order
+  const dataRows = useMemo(() => (
+    csvData && csvData.rows.length > 0 ? csvData.rows : [null]
+  ), [csvData]);
+
+  // A quantity column that no longer exists in the data is ignored
+  const effectiveCopySettings = useMemo(() => ({
+    ...copySettings,
+    quantityKey: csvData?.headers.includes(copySettings.quantityKey) ? copySettings.quantityKey : '',
+  }), [copySettings, csvData]);
+
+  const printSequence = useMemo(() => (
+    isOpen ? buildPrintSequence(dataRows, effectiveCopySettings) : []
+  ), [isOpen, dataRows, effectiveCopySettings]);
+
+  const invalidQuantityRows = useMemo(() => (
+    isOpen && csvData ? findInvalidQuantities(csvData.rows, effectiveCopySettings.quantityKey) : []
+  ), [isOpen, csvData, effectiveCopySettings]);
+
+  // Rendered preview per data row, shared by all copies of the row
+  const imageCache = useMemo(() => new Map<number, string>(), [templateData, csvData]);
+
+  const loadLabelImage = useCallback((rowIndex: number, isCancelled: () => boolean): Promise<string | null> => {
+    const cached = imageCache.get(rowIndex);
+    if (cached) return Promise.resolve(cached);
+
+    // One label at a time, skipping cells paged away from before their turn
+    const task = renderQueueRef.current.then(async () => {
+      if (isCancelled()) return null;
+      const hit = imageCache.get(rowIndex);
+      if (hit) return hit;
+      const url = await generateLabelImage(templateData, dataRows[rowIndex] ?? null, PREVIEW_MULTIPLIER);
+      imageCache.set(rowIndex, url);
+      return url;
+    });
+    renderQueueRef.current = task.catch(() => null);
+    return task;
+  }, [imageCache, templateData, dataRows]);
+
+  // Check once per template whether labels can be drawn as vectors
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    createLabelCanvas(templateData, csvData?.rows[0] || null).then(canvas => {
+      if (!cancelled) setVectorIssues(getVectorIssues(canvas));
+      canvas.dispose();
+    }).catch(e => console.error("Vector support check failed", e));
+    return () => { cancelled = true; };
+  }, [isOpen, templateData, csvData]);
+
   // Reset view when tab opens
   useEffect(() => {
     if (isOpen) {
       setViewZoom(1);
       setViewPan({ x: 0, y: 0 });
+      setCustomSheets(getCustomSheets());
+      setPrinterProfiles(getPrinterProfiles());
+      setActiveProfileId(getActivePrinterProfileId());
     }
   }, [isOpen]);
 
   if (!isOpen) return null;
 
-  const totalLabels = tilingSettings.rows * tilingSettings.cols;
-
   // --- Calculations ---
-  const effectivePageW = paperOrientation === 'portrait' ? PAGE_DIMENSIONS[paperSize].w : PAGE_DIMENSIONS[paperSize].h;
-  const effectivePageH = paperOrientation === 'portrait' ? PAGE_DIMENSIONS[paperSize].h : PAGE_DIMENSIONS[paperSize].w;
+
+  // Normalize all dimensions to mm; length inputs are shown in the template's unit
+  const unit: LengthUnit = isLengthUnit(templateData.dimensions.unit) ? templateData.dimensions.unit : 'inch';
+  const toUnit = (mm: number) => convertLengthRounded(mm, 'mm', unit);
+  const fromUnit = (value: number) => convertLength(value, unit, 'mm');
+  const labelW_mm = getMm(templateData.dimensions.width, templateData.dimensions.unit);
+  const labelH_mm = getMm(templateData.dimensions.height, templateData.dimensions.unit);
+  const labelShape = getLabelShape(templateData);
+
+  // Roll media: every page is exactly one label, turned for printers that feed it sideways
+  const isRoll = !labelSheet && paperSize === 'roll';
+  const rollSideways = rollRotation === 90 || rollRotation === 270;
+
+  let paperW: number;
+  let paperH: number;
+  if (paperSize === 'roll') {
+    paperW = rollSideways ? labelH_mm : labelW_mm;
+    paperH = rollSideways ? labelW_mm : labelH_mm;
+  } else {
+    paperW = paperOrientation === 'portrait' ? PAGE_DIMENSIONS[paperSize].w : PAGE_DIMENSIONS[paperSize].h;
+    paperH = paperOrientation === 'portrait' ? PAGE_DIMENSIONS[paperSize].h : PAGE_DIMENSIONS[paperSize].w;
+  }
+  // A label sheet brings its own page size
+  const effectivePageW = labelSheet ? labelSheet.pageWidth : paperW;
+  const effectivePageH = labelSheet ? labelSheet.pageHeight : paperH;
 
   // Define printable area
   const safePageW = effectivePageW - (PRINT_MARGIN_MM * 2);
   const safePageH = effectivePageH - (PRINT_MARGIN_MM * 2);
-
-  // Normalize all dimensions to mm
-  const labelW_mm = getMm(templateData.dimensions.width, templateData.dimensions.unit);
-  const labelH_mm = getMm(templateData.dimensions.height, templateData.dimensions.unit);
   
-  // Gaps are currently always inches in the UI, so convert inches to mm
-  const gapX_mm = gapX * 25.4;
-  const gapY_mm = gapY * 25.4;
-
   const rawGridW = (labelW_mm * tilingSettings.cols) + (gapX_mm * Math.max(0, tilingSettings.cols - 1));
   const rawGridH = (labelH_mm * tilingSettings.rows) + (gapY_mm * Math.max(0, tilingSettings.rows - 1));
 
-  // Determine if it fits naturally within safe margins
-  const fitsNaturally = rawGridW <= safePageW && rawGridH <= safePageH;
+  // Determine if it fits naturally within safe margins. Sheets are placed
+  // exactly where the vendor cut them and roll pages are the label, so they always fit.
+  const fitsNaturally = !!labelSheet || isRoll || (rawGridW <= safePageW && rawGridH <= safePageH);
   
   let scaleFactor = 1;
-  if (autoScale && !fitsNaturally) {
+  if (!labelSheet && autoScale && !fitsNaturally) {
      const scaleX = safePageW / rawGridW;
      const scaleY = safePageH / rawGridH;
      // Scale down to fit the most constrained dimension
@@ -113,12 +258,51 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
   const finalGridW = (finalLabelW * tilingSettings.cols) + (finalGapX * Math.max(0, tilingSettings.cols - 1));
   const finalGridH = (finalLabelH * tilingSettings.rows) + (finalGapY * Math.max(0, tilingSettings.rows - 1));
 
+  // Label positions on each page: the sheet's die-cut positions, or the grid centered on the page
+  let slots: LabelSlot[];
+  if (labelSheet) {
+    slots = getSheetSlots(labelSheet);
+  } else if (isRoll) {
+    slots = [{ x: 0, y: 0, width: paperW, height: paperH }];
+  } else {
+    const startX = Math.max(0, (effectivePageW - finalGridW) / 2);
+    const startY = Math.max(0, (effectivePageH - finalGridH) / 2);
+    slots = [];
+    for (let r = 0; r < tilingSettings.rows; r++) {
+      for (let c = 0; c < tilingSettings.cols; c++) {
+        slots.push({
+          x: startX + (c * (finalLabelW + finalGapX)),
+          y: startY + (r * (finalLabelH + finalGapY)),
+          width: finalLabelW,
+          height: finalLabelH,
+        });
+      }
+    }
+  }
+  const totalLabels = slots.length;
+  const slotRotation: LabelRotation = isRoll ? rollRotation : 0;
+  // Clamped here so a smaller layout never skips a whole page
+  const skipCount = Math.min(startPosition, totalLabels - 1);
+  const labelCount = printSequence.length;
+  const pageCount = countPages(labelCount, skipCount, totalLabels);
+  const currentPage = Math.min(previewPage, Math.max(0, pageCount - 1));
+
+  // Position in the print sequence of a cell on the current preview page; negative for used cells
+  const getCellLabelIndex = (slotIndex: number) => currentPage * totalLabels + slotIndex - skipCount;
+
+  // The template no longer matches the sheet if its size was changed after picking the sheet
+  const sheetSizeMismatch = !!labelSheet && (
+    Math.abs(labelSheet.labelWidth - labelW_mm) > SHEET_SIZE_TOLERANCE_MM ||
+    Math.abs(labelSheet.labelHeight - labelH_mm) > SHEET_SIZE_TOLERANCE_MM
+  );
+
   // The base height of the preview paper in pixels (when zoom is 100%)
   const BASE_PREVIEW_HEIGHT_PX = 600;
   const pxPerMm = BASE_PREVIEW_HEIGHT_PX / effectivePageH;
 
   // Pan Handlers
   const handleMouseDown = (e: React.MouseEvent) => {
+    pressPointRef.current = { x: e.clientX, y: e.clientY };
     setIsPanning(true);
     startPanRef.current = { x: e.clientX - viewPan.x, y: e.clientY - viewPan.y };
   };
@@ -149,45 +333,262 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
     }
   };
 
+  // Clicking a cell shows where its label comes from, unless the click ended a pan
+  const handleCellClick = (e: React.MouseEvent, slotIndex: number) => {
+    const moved = Math.abs(e.clientX - pressPointRef.current.x) + Math.abs(e.clientY - pressPointRef.current.y);
+    if (moved < 4) setInspectedSlot(slotIndex);
+  };
+
+  const handlePageChange = (page: number) => {
+    setPreviewPage(Math.max(0, Math.min(page, pageCount - 1)));
+    setInspectedSlot(null);
+  };
+
+  const renderCellInspector = (slotIndex: number) => {
+    const labelIndex = getCellLabelIndex(slotIndex);
+    const rowIndex = labelIndex >= 0 && labelIndex < labelCount ? printSequence[labelIndex] : null;
+    const row = rowIndex !== null ? dataRows[rowIndex] : null;
+
+    return (
+      <div 
+        className="absolute bottom-4 left-4 z-20 w-72 max-h-[60%] flex flex-col bg-zinc-900 rounded-lg shadow-xl border border-zinc-700 text-xs cursor-default"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-3 border-b border-zinc-800">
+          <span className="font-semibold text-zinc-200 flex items-center gap-1.5">
+            <Info size={14} className="text-blue-400" />
+            Page {currentPage + 1}, position {slotIndex + 1}
+          </span>
+          <button onClick={() => setInspectedSlot(null)} className="text-zinc-500 hover:text-zinc-300"><X size={14} /></button>
+        </div>
+        <div className="p-3 overflow-y-auto space-y-2">
+          {labelIndex < 0 && <p className="text-zinc-400">Marked as used. Nothing prints here.</p>}
+          {labelIndex >= labelCount && <p className="text-zinc-400">Empty position. The job ends before this label.</p>}
+          {rowIndex !== null && (
+            <>
+              <p className="text-zinc-400">
+                Label <strong className="text-zinc-200">{labelIndex + 1}</strong> of {labelCount}
+                {csvData && <> &middot; CSV row <strong className="text-zinc-200">{rowIndex + 1}</strong></>}
+              </p>
+              {row ? (
+                <table className="w-full font-mono">
+                  <tbody>
+                    {csvData?.headers.map(header => {
+                      const issue = issueByCell.get(`${rowIndex}:${header}`);
+                      return (
+                        <tr key={header} className="border-t border-zinc-800" title={issue}>
+                          <td className="py-1 pr-2 text-zinc-500 align-top">{header}</td>
+                          <td className={`py-1 break-all ${issue ? 'text-red-400' : 'text-zinc-200'}`}>{row[header]}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-zinc-500">No data loaded. Placeholders are shown.</p>
+              )}
+            </>
+          )}
+        </div>
+        {currentPage === 0 && slotIndex !== skipCount && (
+          <div className="p-3 border-t border-zinc-800">
+            <button 
+              onClick={() => { setStartPosition(slotIndex); setInspectedSlot(null); }}
+              className="w-full px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-700 text-white font-medium flex items-center justify-center gap-1.5"
+            >
+              <SkipForward size={12} /> Start printing here
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // --- Printer Calibration ---
+
+  const activeProfile = printerProfiles.find(profile => profile.id === activeProfileId) || null;
+
+  const handleProfileSelect = (id: string) => {
+    setActiveProfileId(id || null);
+    setActivePrinterProfileId(id || null);
+  };
+
+  const handleOpenCalibration = (profile: PrinterProfile | null) => {
+    setProfileToEdit(profile);
+    setIsCalibrationOpen(true);
+  };
+
+  const handleSaveProfile = (profile: PrinterProfile) => {
+    try {
+      const saved = savePrinterProfile(profile);
+      setPrinterProfiles(getPrinterProfiles());
+      setIsCalibrationOpen(false);
+      handleProfileSelect(saved.id);
+    } catch (e) {
+      // The calibration dialog stays open so the measurements aren't lost
+      setFailedProfileSave({ profile, message: (e as Error).message });
+    }
+  };
+
+  const executeDeleteProfile = () => {
+    if (!profileToDelete) return;
+    deletePrinterProfile(profileToDelete.id);
+    setPrinterProfiles(getPrinterProfiles());
+    setActiveProfileId(null);
+    setProfileToDelete(null);
+  };
+
+  // --- Label Sheets ---
+
+  const allSheets = [...SHEET_PRESETS, ...customSheets];
+
+  const handleSheetSelect = (id: string) => {
+    onApplySheet(allSheets.find(sheet => sheet.id === id) || null);
+  };
+
+  const handleOpenSheetEditor = (sheet: SheetDefinition | null) => {
+    setSheetToEdit(sheet);
+    setIsSheetEditorOpen(true);
+  };
+
+  const handleSaveSheet = (sheet: SheetDefinition) => {
+    try {
+      const saved = saveCustomSheet(sheet);
+      setCustomSheets(getCustomSheets());
+      setIsSheetEditorOpen(false);
+      onApplySheet(saved);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const executeDeleteSheet = () => {
+    if (!sheetToDelete) return;
+    deleteCustomSheet(sheetToDelete.id);
+    setCustomSheets(getCustomSheets());
+    onApplySheet(null);
+    setSheetToDelete(null);
+  };
+
+  const handleExportSheet = (sheet: SheetDefinition) => {
+    const { isCustom, ...shared } = sheet;
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(shared, null, 2));
+    const downloadAnchorNode = document.createElement('a');
+    downloadAnchorNode.setAttribute("href", dataStr);
+    downloadAnchorNode.setAttribute("download", `${sheet.name.replace(/[^\w.-]+/g, '_')}.sheet.json`);
+    document.body.appendChild(downloadAnchorNode);
+    downloadAnchorNode.click();
+    downloadAnchorNode.remove();
+  };
+
+  const handleImportSheets = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const sheets = parseSheetDefinitions(String(reader.result));
+        if (sheets.length === 0) {
+          alert("No valid sheet definitions found in this file.");
+          return;
+        }
+        // Sheets sharing a preset's id get a new one instead of shadowing the catalogue
+        const saved = sheets.map(sheet => saveCustomSheet({
+          ...sheet,
+          id: SHEET_PRESETS.some(preset => preset.id === sheet.id) ? '' : sheet.id,
+        }));
+        setCustomSheets(getCustomSheets());
+        onApplySheet(saved[0]);
+      } catch (err) {
+        console.error("Failed to import sheets", err);
+        alert("Could not read sheet file. Expected a JSON sheet definition.");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const downloadAnchorNode = document.createElement('a');
+    downloadAnchorNode.setAttribute("href", url);
+    downloadAnchorNode.setAttribute("download", filename);
+    document.body.appendChild(downloadAnchorNode);
+    downloadAnchorNode.click();
+    downloadAnchorNode.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  // Thermal printers print one label at a time, so sheet layout and start position don't apply
+  const handleDownloadPrinterFile = async () => {
+    setIsGenerating(true);
+    try {
+      const runs = groupPrintSequence(printSequence);
+      let blob: Blob;
+      if (printerLanguage === 'tspl') {
+        blob = await generateTspl(templateData, dataRows, runs, printerDpi, { width: labelW_mm, height: labelH_mm, gap: labelGap });
+      } else if (printerLanguage === 'epl') {
+        blob = await generateEpl(templateData, dataRows, runs, printerDpi, labelGap);
+      } else {
+        blob = new Blob([await generateZpl(templateData, dataRows, runs, printerDpi)], { type: 'text/plain' });
+      }
+      downloadBlob(blob, `${templateData.templateName}.${PRINTER_LANGUAGES[printerLanguage].extension}`);
+    } catch (e) {
+      console.error(e);
+      alert(`Error generating ${PRINTER_LANGUAGES[printerLanguage].name} output`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   const handleDownloadPdf = async () => {
     setIsGenerating(true);
     setTimeout(async () => {
       try {
-        const doc = new jsPDF({
+        const doc = new jsPDF(labelSheet || isRoll ? {
+          orientation: effectivePageW > effectivePageH ? 'landscape' : 'portrait',
+          unit: 'mm',
+          format: [effectivePageW, effectivePageH]
+        } : {
           orientation: paperOrientation,
           unit: 'mm',
           format: paperSize
         });
 
-        const rows = tilingSettings.rows;
-        const cols = tilingSettings.cols;
-        const labelsPerPage = rows * cols;
-        // Center the grid on the page
-        const startX = Math.max(0, (effectivePageW - finalGridW) / 2);
-        const startY = Math.max(0, (effectivePageH - finalGridH) / 2);
-        const dataRows = csvData && csvData.rows.length > 0 ? csvData.rows : [null]; 
+        const labelsPerPage = slots.length;
+        let currentPage = 0;
         
-        for (let i = 0; i < dataRows.length; i++) {
-          const rowIndex = i;
+        for (let i = 0; i < printSequence.length; i++) {
+          const rowIndex = printSequence[i];
           const dataRow = dataRows[rowIndex];
 
-          if (i > 0 && i % labelsPerPage === 0) {
+          const placement = getLabelPlacement(i, skipCount, labelsPerPage);
+          while (currentPage < placement.page) {
             doc.addPage();
+            currentPage++;
           }
 
-          const posOnPage = i % labelsPerPage;
-          const c = posOnPage % cols;
-          const r = Math.floor(posOnPage / cols);
+          // Undo the printer's measured shift and scale
+          const slot = applyPrinterProfile(slots[placement.slot], activeProfile);
 
-          const x = startX + (c * (finalLabelW + finalGapX));
-          const y = startY + (r * (finalLabelH + finalGapY));
+          const outline = getShapeOutline(labelShape, slot, scaleFactor);
 
-          const imgData = await generateLabelImage(templateData, dataRow);
-          doc.addImage(imgData, 'PNG', x, y, finalLabelW, finalLabelH);
+          const labelCanvas = await createLabelCanvas(templateData, dataRow);
+          drawLabel(doc, labelCanvas, slot, pdfOutput === 'vector', slotRotation, outline);
+          labelCanvas.dispose();
           
-          if (scaleFactor < 0.5) doc.setLineWidth(0.05); 
-          doc.setDrawColor(240, 240, 240);
-          doc.rect(x, y, finalLabelW, finalLabelH);
+          if (drawCutLine) {
+            // Hairline in the magenta cutters and plotters pick up as the contour
+            doc.setLineWidth(0.1);
+            doc.setDrawColor(236, 0, 140);
+            traceOutline(doc, outline, 'S');
+          } else if (!labelSheet && !isRoll) {
+            // Sheets and rolls are die-cut already; a plain grid gets light cutting guides
+            if (scaleFactor < 0.5) doc.setLineWidth(0.05); 
+            doc.setDrawColor(240, 240, 240);
+            traceOutline(doc, outline, 'S');
+          }
         }
         doc.save(`${templateData.templateName}.pdf`);
       } catch (e) {
@@ -248,6 +649,79 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                    <h4 className="font-semibold text-sm mb-4 text-zinc-300 border-b border-zinc-700 pb-2 flex items-center gap-2">
                       <Settings2 size={16} /> Paper Settings
                    </h4>
+
+                   {/* Label Sheet */}
+                   <div className="mb-4">
+                      <label className="block text-xs font-medium text-zinc-500 mb-1 flex items-center gap-1">
+                         <LayoutGrid size={12} /> Label Sheet
+                      </label>
+                      <select 
+                         value={labelSheet?.id || ''} 
+                         onChange={(e) => handleSheetSelect(e.target.value)}
+                         className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      >
+                         <option value="">Custom grid (centered)</option>
+                         {SHEET_VENDORS.map(vendor => (
+                            <optgroup key={vendor} label={vendor}>
+                               {SHEET_PRESETS.filter(sheet => sheet.vendor === vendor).map(sheet => (
+                                  <option key={sheet.id} value={sheet.id}>{vendor} {sheet.name}</option>
+                               ))}
+                            </optgroup>
+                         ))}
+                         {customSheets.length > 0 && (
+                            <optgroup label="My Sheets">
+                               {customSheets.map(sheet => (
+                                  <option key={sheet.id} value={sheet.id}>{sheet.name}</option>
+                               ))}
+                            </optgroup>
+                         )}
+                      </select>
+
+                      {labelSheet && (
+                         <div className="mt-2 p-2 rounded bg-zinc-800/50 border border-zinc-800 text-xs text-zinc-400 space-y-0.5 font-mono">
+                            <div>Page {labelSheet.pageWidth} x {labelSheet.pageHeight} mm</div>
+                            <div>Label {labelSheet.labelWidth} x {labelSheet.labelHeight} mm, {labelSheet.cols} x {labelSheet.rows}</div>
+                            <div>Margin top {labelSheet.marginTop}, left {labelSheet.marginLeft} mm</div>
+                            <div>Pitch {labelSheet.pitchX} x {labelSheet.pitchY} mm</div>
+                         </div>
+                      )}
+
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                         <button onClick={() => handleOpenSheetEditor(null)} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 flex items-center gap-1">
+                            <Plus size={12} /> New
+                         </button>
+                         {labelSheet && (
+                            <button onClick={() => handleOpenSheetEditor(labelSheet)} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 flex items-center gap-1">
+                               <Pencil size={12} /> {labelSheet.isCustom ? 'Edit' : 'Customize'}
+                            </button>
+                         )}
+                         {labelSheet && (
+                            <button onClick={() => handleExportSheet(labelSheet)} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 flex items-center gap-1" title="Download as JSON to share">
+                               <Download size={12} /> Share
+                            </button>
+                         )}
+                         <button onClick={() => sheetInputRef.current?.click()} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 flex items-center gap-1">
+                            <Upload size={12} /> Import
+                         </button>
+                         {labelSheet?.isCustom && (
+                            <button onClick={() => setSheetToDelete(labelSheet)} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-red-900/50 text-red-400 flex items-center gap-1">
+                               <Trash2 size={12} /> Delete
+                            </button>
+                         )}
+                         <input ref={sheetInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportSheets} />
+                      </div>
+
+                      {sheetSizeMismatch && labelSheet && (
+                         <div className="mt-2 p-2 rounded text-xs border bg-amber-900/20 border-amber-900/50 text-amber-400 flex items-start gap-1.5">
+                            <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                            <span>
+                               The label is {labelW_mm.toFixed(1)} x {labelH_mm.toFixed(1)} mm but this sheet's labels are {labelSheet.labelWidth} x {labelSheet.labelHeight} mm. Labels will be stretched to the sheet; pick the sheet again to resize the label.
+                            </span>
+                         </div>
+                      )}
+                   </div>
+
+                   {!labelSheet && (
                    <div className="grid grid-cols-2 gap-4 mb-4">
                       <div>
                          <label className="block text-xs font-medium text-zinc-500 mb-1">Format</label>
@@ -258,8 +732,24 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                          >
                             <option value="letter">Letter (US)</option>
                             <option value="a4">A4 (Intl)</option>
+                            <option value="roll">Roll (label size)</option>
                          </select>
                       </div>
+                      {isRoll ? (
+                      <div>
+                         <label className="block text-xs font-medium text-zinc-500 mb-1">Rotation</label>
+                         <select 
+                            value={rollRotation} 
+                            onChange={(e) => setRollRotation(Number(e.target.value) as LabelRotation)}
+                            className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                         >
+                            <option value={0}>None</option>
+                            <option value={90}>90° clockwise</option>
+                            <option value={180}>180°</option>
+                            <option value={270}>90° counter-clockwise</option>
+                         </select>
+                      </div>
+                      ) : (
                       <div>
                          <label className="block text-xs font-medium text-zinc-500 mb-1">Orientation</label>
                          <select 
@@ -271,9 +761,137 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                             <option value="landscape">Landscape</option>
                          </select>
                       </div>
+                      )}
                    </div>
+                   )}
+                   {isRoll && (
+                      <p className="text-[11px] text-zinc-600 -mt-2 mb-4 leading-snug">
+                         One label per page at {paperW.toFixed(1)} x {paperH.toFixed(1)} mm, no margins or scaling. For desktop label printers (Zebra, Brother QL, DYMO).
+                      </p>
+                   )}
                 </div>
 
+                {/* Output Settings */}
+                <div>
+                   <label className="block text-xs font-medium text-zinc-500 mb-1 flex items-center gap-1">
+                      <FileText size={12} /> PDF Output
+                   </label>
+                   <select 
+                      value={pdfOutput} 
+                      onChange={(e) => setPdfOutput(e.target.value as PdfOutput)}
+                      className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                   >
+                      <option value="vector">Vector (sharp, searchable text)</option>
+                      <option value="raster">Image (PNG per label)</option>
+                   </select>
+                   <label className="mt-2 flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                      <input
+                         type="checkbox"
+                         checked={drawCutLine}
+                         onChange={(e) => setDrawCutLine(e.target.checked)}
+                         className="accent-blue-500"
+                      />
+                      Draw cut line{labelShape.kind !== 'rectangle' ? ' (follows the label shape)' : ''}
+                   </label>
+                   {pdfOutput === 'vector' && vectorIssues.length > 0 && (
+                      <div className="mt-2 p-2 rounded text-xs border bg-amber-900/20 border-amber-900/50 text-amber-400">
+                         <div className="font-bold flex items-center gap-1.5 mb-1">
+                            <AlertTriangle size={12} /> Labels will be embedded as images
+                         </div>
+                         <ul className="list-disc pl-4 space-y-0.5 text-amber-300/80">
+                            {vectorIssues.slice(0, 5).map((issue, i) => <li key={i}>{issue}</li>)}
+                            {vectorIssues.length > 5 && <li>...and {vectorIssues.length - 5} more</li>}
+                         </ul>
+                      </div>
+                   )}
+                </div>
+
+                {/* Printer Calibration */}
+                <div>
+                   <label className="block text-xs font-medium text-zinc-500 mb-1 flex items-center gap-1">
+                      <Crosshair size={12} /> Printer Calibration
+                   </label>
+                   <select 
+                      value={activeProfile?.id || ''} 
+                      onChange={(e) => handleProfileSelect(e.target.value)}
+                      className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                   >
+                      <option value="">None</option>
+                      {printerProfiles.map(profile => (
+                         <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                   </select>
+                   {activeProfile && (
+                      <div className="mt-2 p-2 rounded bg-zinc-800/50 border border-zinc-800 text-xs text-zinc-400 space-y-0.5 font-mono">
+                         <div>Printer shifts {activeProfile.offsetX} mm right, {activeProfile.offsetY} mm down</div>
+                         <div>Printer scales {activeProfile.scaleX}% x {activeProfile.scaleY}%</div>
+                      </div>
+                   )}
+                   <div className="mt-2 flex flex-wrap gap-1.5">
+                      <button onClick={() => handleOpenCalibration(null)} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 flex items-center gap-1">
+                         <Plus size={12} /> Calibrate
+                      </button>
+                      {activeProfile && (
+                         <button onClick={() => handleOpenCalibration(activeProfile)} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 flex items-center gap-1">
+                            <Pencil size={12} /> Edit
+                         </button>
+                      )}
+                      {activeProfile && (
+                         <button onClick={() => setProfileToDelete(activeProfile)} className="px-2 py-1 text-xs rounded bg-zinc-800 hover:bg-red-900/50 text-red-400 flex items-center gap-1">
+                            <Trash2 size={12} /> Delete
+                         </button>
+                      )}
+                   </div>
+                   <p className="text-[11px] text-zinc-600 mt-1 leading-snug">
+                      Corrects PDF output for a printer that shifts or scales the page.
+                   </p>
+                </div>
+
+                {/* Thermal Printer */}
+                <div>
+                   <label className="block text-xs font-medium text-zinc-500 mb-1 flex items-center gap-1">
+                      <Zap size={12} /> Thermal Printer
+                   </label>
+                   <div className="grid grid-cols-2 gap-2">
+                      <select 
+                         value={printerLanguage} 
+                         onChange={(e) => setPrinterLanguage(e.target.value as PrinterLanguage)}
+                         className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      >
+                         {(Object.keys(PRINTER_LANGUAGES) as PrinterLanguage[]).map(lang => (
+                            <option key={lang} value={lang}>{PRINTER_LANGUAGES[lang].name}</option>
+                         ))}
+                      </select>
+                      <select 
+                         value={printerDpi} 
+                         onChange={(e) => setPrinterDpi(Number(e.target.value) as PrinterDpi)}
+                         className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      >
+                         {PRINTER_DPI_OPTIONS.map(dpi => (
+                            <option key={dpi} value={dpi}>{dpi} dpi ({Math.round(dpi / 25.4)} dots/mm)</option>
+                         ))}
+                      </select>
+                   </div>
+                   {printerLanguage !== 'zpl' && (
+                      <div className="mt-2 flex items-center gap-2">
+                         <label className="text-xs text-zinc-500 whitespace-nowrap">Gap between labels ({UNIT_INFO[unit].suffix})</label>
+                         <input 
+                            type="number" 
+                            step={UNIT_INFO[unit].step}
+                            min="0"
+                            value={toUnit(labelGap)}
+                            onChange={(e) => setLabelGap(Math.max(0, fromUnit(parseFloat(e.target.value) || 0)))}
+                            className="w-full p-1.5 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                         />
+                      </div>
+                   )}
+                   <p className="text-[11px] text-zinc-600 mt-1 leading-snug">
+                      Label size is taken from the template. One label per data row, copies sent as print quantity.
+                   </p>
+                </div>
+
+                {!labelSheet && !isRoll && (
+                <>
                 {/* Grid Settings */}
                 <div className="grid grid-cols-2 gap-4 mb-4">
                      <div>
@@ -298,6 +916,28 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                         className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
                       />
                      </div>
+                     <div>
+                      <label className="block text-xs font-medium text-zinc-500 mb-1">Column Gap ({UNIT_INFO[unit].suffix})</label>
+                      <input 
+                        type="number" 
+                        min="0" 
+                        step={UNIT_INFO[unit].step}
+                        value={toUnit(gapX_mm)}
+                        onChange={(e) => setGapX(Math.max(0, fromUnit(parseFloat(e.target.value) || 0)))}
+                        className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                     </div>
+                     <div>
+                      <label className="block text-xs font-medium text-zinc-500 mb-1">Row Gap ({UNIT_INFO[unit].suffix})</label>
+                      <input 
+                        type="number" 
+                        min="0" 
+                        step={UNIT_INFO[unit].step}
+                        value={toUnit(gapY_mm)}
+                        onChange={(e) => setGapY(Math.max(0, fromUnit(parseFloat(e.target.value) || 0)))}
+                        className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                     </div>
                 </div>
                 
                 {/* Auto Scale */}
@@ -335,6 +975,90 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                       </div>
                    )}
                 </div>
+                </>
+                )}
+
+                {/* Copies */}
+                <div>
+                   <h4 className="font-semibold text-sm mb-4 text-zinc-300 border-b border-zinc-700 pb-2 flex items-center gap-2">
+                      <Copy size={16} /> Copies
+                   </h4>
+                   <div className="grid grid-cols-2 gap-4 mb-3">
+                      <div>
+                         <label className="block text-xs font-medium text-zinc-500 mb-1">Quantity Column</label>
+                         <select 
+                            value={effectiveCopySettings.quantityKey} 
+                            onChange={(e) => setCopySettings(prev => ({ ...prev, quantityKey: e.target.value }))}
+                            disabled={!csvData}
+                            className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
+                         >
+                            <option value="">None (1 per row)</option>
+                            {csvData?.headers.map(header => (
+                               <option key={header} value={header}>{header}</option>
+                            ))}
+                         </select>
+                      </div>
+                      <div>
+                         <label className="block text-xs font-medium text-zinc-500 mb-1">
+                            {effectiveCopySettings.quantityKey ? 'Multiplier' : 'Copies per Row'}
+                         </label>
+                         <input 
+                           type="number" 
+                           min="1" 
+                           value={copySettings.copies}
+                           onChange={(e) => setCopySettings(prev => ({ ...prev, copies: Math.max(1, parseInt(e.target.value) || 1) }))}
+                           className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                         />
+                      </div>
+                   </div>
+                   <div>
+                      <label className="block text-xs font-medium text-zinc-500 mb-1">Order</label>
+                      <select 
+                         value={copySettings.order} 
+                         onChange={(e) => setCopySettings(prev => ({ ...prev, order: e.target.value as CopyOrder }))}
+                         className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      >
+                         <option value="grouped">Grouped (A A A, B B B)</option>
+                         <option value="collated">Collated (A B, A B, A)</option>
+                      </select>
+                   </div>
+                   {invalidQuantityRows.length > 0 && (
+                      <div className="mt-2 p-2 rounded text-xs border bg-amber-900/20 border-amber-900/50 text-amber-400 flex items-start gap-1.5">
+                         <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                         <span>
+                            {invalidQuantityRows.length} row{invalidQuantityRows.length === 1 ? '' : 's'} without a whole-number quantity will be skipped
+                            (row {invalidQuantityRows.slice(0, 5).map(r => r + 1).join(', ')}{invalidQuantityRows.length > 5 ? ', ...' : ''}).
+                         </span>
+                      </div>
+                   )}
+                </div>
+
+                {/* Start Position */}
+                {!isRoll && (
+                <div>
+                   <label className="block text-xs font-medium text-zinc-500 mb-1 flex items-center gap-1">
+                      <SkipForward size={12} /> Skip First Positions
+                   </label>
+                   <div className="flex items-center gap-2">
+                      <input 
+                        type="number" 
+                        min="0" 
+                        max={totalLabels - 1}
+                        value={skipCount}
+                        onChange={(e) => setStartPosition(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                      {skipCount > 0 && (
+                         <button onClick={() => setStartPosition(0)} className="px-2 py-2 text-xs rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300 whitespace-nowrap">
+                            Reset
+                         </button>
+                      )}
+                   </div>
+                   <p className="text-[11px] text-zinc-600 mt-1 leading-snug">
+                      For partly used sheets. Or click a cell in the preview and choose Start printing here.
+                   </p>
+                </div>
+                )}
 
               </div>
 
@@ -373,10 +1097,11 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                         }}
                     >
                         <div className="absolute -top-8 left-0 text-xs text-zinc-500 font-mono whitespace-nowrap bg-zinc-900/50 px-2 py-1 rounded">
-                          {paperSize.toUpperCase()} ({paperOrientation})
+                          {labelSheet ? `${labelSheet.vendor} ${labelSheet.name}` : isRoll ? `ROLL (${paperW.toFixed(1)} x ${paperH.toFixed(1)} mm)` : `${paperSize.toUpperCase()} (${paperOrientation})`}
                         </div>
                         
                         {/* Safe Area Guide (Dashed Box) */}
+                        {!labelSheet && !isRoll && (
                         <div 
                            className="absolute border border-dashed border-slate-300 pointer-events-none"
                            style={{
@@ -386,43 +1111,109 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                               height: `${safePageH * pxPerMm}px`,
                            }}
                         />
+                        )}
 
-                        {/* Grid Container */}
-                        <div 
-                          className="w-full h-full relative"
-                          style={{
-                            display: 'grid',
-                            placeContent: 'center',
-                            gridTemplateColumns: `repeat(${tilingSettings.cols}, auto)`,
-                            gridTemplateRows: `repeat(${tilingSettings.rows}, auto)`,
-                            gap: `${finalGapY * pxPerMm}px ${finalGapX * pxPerMm}px`, 
-                          }}
-                        >
-                          {Array.from({ length: totalLabels }).map((_, i) => (
-                            <div 
-                              key={i} 
-                              className="relative group border border-slate-100 hover:border-blue-400 overflow-hidden bg-white"
-                              style={{
-                                width: `${finalLabelW * pxPerMm}px`,
-                                height: `${finalLabelH * pxPerMm}px`,
-                              }}
-                            >
-                              <img 
-                                src={previewImage} 
-                                alt={`Label`}
-                                className="w-full h-full object-contain opacity-90"
-                              />
-                            </div>
-                          ))}
+                        {/* Label Positions */}
+                        <div className="w-full h-full relative">
+                          {slots.map((slot, i) => {
+                            const labelIndex = getCellLabelIndex(i);
+                            const isUsed = labelIndex < 0;
+                            const isEmpty = labelIndex >= labelCount;
+                            return (
+                              <div 
+                                key={i} 
+                                onClick={(e) => handleCellClick(e, i)}
+                                className={`absolute group border overflow-hidden cursor-pointer ${isUsed ? 'border-slate-200 bg-slate-100' : 'border-slate-100 hover:border-blue-400 bg-white'} ${inspectedSlot === i ? 'ring-2 ring-blue-500' : (currentPage === 0 && i === skipCount && skipCount > 0 ? 'ring-1 ring-blue-300' : '')}`}
+                                style={{
+                                  left: `${slot.x * pxPerMm}px`,
+                                  top: `${slot.y * pxPerMm}px`,
+                                  width: `${slot.width * pxPerMm}px`,
+                                  height: `${slot.height * pxPerMm}px`,
+                                }}
+                              >
+                                {isUsed && (
+                                  <div className="w-full h-full flex items-center justify-center text-[10px] font-medium text-slate-400 uppercase tracking-wide"
+                                       style={{ backgroundImage: 'repeating-linear-gradient(45deg, transparent, transparent 4px, #e2e8f0 4px, #e2e8f0 5px)' }}>
+                                    Used
+                                  </div>
+                                )}
+                                {!isUsed && !isEmpty && (slotRotation === 0 ? (
+                                  <LabelPreviewImage 
+                                    rowIndex={printSequence[labelIndex]} 
+                                    loadImage={loadLabelImage} 
+                                    placeholder={previewImage} 
+                                  />
+                                ) : (
+                                  // Turned like on the printed page
+                                  <div
+                                    className="absolute left-1/2 top-1/2"
+                                    style={{
+                                      width: `${(rollSideways ? slot.height : slot.width) * pxPerMm}px`,
+                                      height: `${(rollSideways ? slot.width : slot.height) * pxPerMm}px`,
+                                      transform: `translate(-50%, -50%) rotate(${slotRotation}deg)`,
+                                    }}
+                                  >
+                                    <LabelPreviewImage 
+                                      rowIndex={printSequence[labelIndex]} 
+                                      loadImage={loadLabelImage} 
+                                      placeholder={previewImage} 
+                                    />
+                                  </div>
+                                ))}
+                              </div>
+                            );
+                          })}
                         </div>
                     </div>
                  </div>
+
+                 {/* Page Navigation */}
+                 {pageCount > 1 && (
+                   <div 
+                     className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-zinc-900 rounded-lg shadow-md border border-zinc-700 text-xs text-zinc-300 cursor-default"
+                     onMouseDown={(e) => e.stopPropagation()}
+                   >
+                     <button 
+                       onClick={() => handlePageChange(currentPage - 1)} 
+                       disabled={currentPage === 0}
+                       className="p-2 hover:bg-zinc-800 text-zinc-400 disabled:opacity-30 rounded-l-lg"
+                     >
+                       <ChevronLeft size={16} />
+                     </button>
+                     <span className="px-2 font-mono whitespace-nowrap">Page {currentPage + 1} / {pageCount}</span>
+                     <button 
+                       onClick={() => handlePageChange(currentPage + 1)} 
+                       disabled={currentPage >= pageCount - 1}
+                       className="p-2 hover:bg-zinc-800 text-zinc-400 disabled:opacity-30 rounded-r-lg"
+                     >
+                       <ChevronRight size={16} />
+                     </button>
+                   </div>
+                 )}
+
+                 {inspectedSlot !== null && inspectedSlot < totalLabels && renderCellInspector(inspectedSlot)}
               </div>
             </>
           )}
 
           {activeTab === 'data' && (
             <div className="bg-zinc-900 rounded-lg w-full h-full flex flex-col p-6">
+               {barcodeIssues.length > 0 && (
+                 <div className="mb-4 p-3 rounded-lg border bg-red-900/20 border-red-900/40 text-xs max-h-40 overflow-y-auto shrink-0">
+                   <div className="font-bold text-red-400 flex items-center gap-2 mb-2">
+                     <AlertTriangle size={14} />
+                     {barcodeIssues.length} barcode value{barcodeIssues.length === 1 ? '' : 's'} can't be encoded and will print as an error box
+                   </div>
+                   <ul className="space-y-0.5 text-red-300/80 font-mono">
+                     {barcodeIssues.slice(0, 50).map((issue, i) => (
+                       <li key={i}>
+                         Row {issue.rowIndex + 1} &middot; {issue.dataKey} ({issue.symbology}) "{issue.value}": {issue.message}
+                       </li>
+                     ))}
+                     {barcodeIssues.length > 50 && <li>...and {barcodeIssues.length - 50} more</li>}
+                   </ul>
+                 </div>
+               )}
                {csvData ? (
                  <div className="overflow-auto flex-1 border border-zinc-800 rounded-lg">
                    <table className="w-full text-sm text-left text-zinc-400">
@@ -438,11 +1229,18 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
                        {csvData.rows.slice(0, 100).map((row, idx) => (
                          <tr key={idx} className="bg-zinc-900 border-b border-zinc-800 hover:bg-zinc-800 transition-colors">
                            <td className="px-6 py-4 font-mono text-xs text-zinc-600">{idx + 1}</td>
-                           {csvData.headers.map((header) => (
-                             <td key={header} className="px-6 py-4 font-medium text-zinc-300 whitespace-nowrap">
-                               {row[header]}
-                             </td>
-                           ))}
+                           {csvData.headers.map((header) => {
+                             const issue = issueByCell.get(`${idx}:${header}`);
+                             return (
+                               <td 
+                                 key={header} 
+                                 title={issue}
+                                 className={`px-6 py-4 font-medium whitespace-nowrap ${issue ? 'text-red-400 bg-red-900/20' : 'text-zinc-300'}`}
+                               >
+                                 {row[header]}
+                               </td>
+                             );
+                           })}
                          </tr>
                        ))}
                      </tbody>
@@ -464,18 +1262,33 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
           
           {csvData && (
              <span className="text-xs text-zinc-500 mr-auto hidden md:inline">
-                Will generate <strong>{Math.ceil(csvData.rows.length / totalLabels)}</strong> pages.
+                Will generate <strong>{pageCount}</strong> pages ({labelCount} labels).
+                {skipCount > 0 && <> Starting at position <strong>{skipCount + 1}</strong>.</>}
+                {barcodeIssues.length > 0 && (
+                  <button onClick={() => setActiveTab('data')} className="ml-3 text-red-400 hover:underline">
+                    {barcodeIssues.length} invalid barcode value{barcodeIssues.length === 1 ? '' : 's'}
+                  </button>
+                )}
              </span>
           )}
 
           <button onClick={onClose} className="px-4 py-2 text-zinc-400 hover:bg-zinc-800 rounded-md font-medium text-sm transition-colors">
             Close
           </button>
+
+          <button 
+             onClick={handleDownloadPrinterFile}
+             disabled={isGenerating || labelCount === 0}
+             className={`px-4 py-2 rounded-md font-medium text-sm transition-colors flex items-center gap-2 border ${isGenerating || labelCount === 0 ? 'border-zinc-700 text-zinc-600 cursor-not-allowed' : 'border-zinc-600 text-zinc-200 hover:bg-zinc-800'}`}
+          >
+             <Zap size={16} />
+             Download .{PRINTER_LANGUAGES[printerLanguage].extension}
+          </button>
           
           <button 
              onClick={handleDownloadPdf}
-             disabled={isGenerating || (!fitsNaturally && !autoScale)}
-             className={`px-6 py-2 text-white rounded-md font-medium text-sm shadow-sm transition-colors flex items-center gap-2 ${isGenerating || (!fitsNaturally && !autoScale) ? 'bg-zinc-700 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700'}`}
+             disabled={isGenerating || (!fitsNaturally && !autoScale) || labelCount === 0}
+             className={`px-6 py-2 text-white rounded-md font-medium text-sm shadow-sm transition-colors flex items-center gap-2 ${isGenerating || (!fitsNaturally && !autoScale) || labelCount === 0 ? 'bg-zinc-700 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700'}`}
           >
             {isGenerating ? 'Generating...' : (
                <>
@@ -487,6 +1300,48 @@ const PreviewModal: React.FC<PreviewModalProps> = ({
         </div>
 
       </div>
+
+      <SheetEditorModal
+        isOpen={isSheetEditorOpen}
+        sheet={sheetToEdit}
+        onClose={() => setIsSheetEditorOpen(false)}
+        onSave={handleSaveSheet}
+      />
+
+      <ConfirmationModal
+        isOpen={sheetToDelete !== null}
+        onClose={() => setSheetToDelete(null)}
+        onConfirm={executeDeleteSheet}
+        title="Delete Sheet"
+        message={`Delete the sheet "${sheetToDelete?.name}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+      />
+
+      <PrinterCalibrationModal
+        isOpen={isCalibrationOpen}
+        profile={profileToEdit}
+        onClose={() => setIsCalibrationOpen(false)}
+        onSave={handleSaveProfile}
+      />
+
+      <ConfirmationModal
+        isOpen={profileToDelete !== null}
+        onClose={() => setProfileToDelete(null)}
+        onConfirm={executeDeleteProfile}
+        title="Delete Printer Profile"
+        message={`Delete the printer profile "${profileToDelete?.name}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+      />
+
+      <ConfirmationModal
+        isOpen={failedProfileSave !== null}
+        // Closing runs after a retry; a retry that fails again keeps its own message
+        onClose={() => setFailedProfileSave(current => current === failedProfileSave ? null : current)}
+        onConfirm={() => failedProfileSave && handleSaveProfile(failedProfileSave.profile)}
+        title="Profile Not Saved"
+        message={failedProfileSave?.message}
+        confirmLabel="Try Again"
+      />
     </div>
   );
 };
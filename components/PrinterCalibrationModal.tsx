@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, Crosshair, Download } from 'lucide-react';
+import { PrinterProfile } from '../types';
+import { CALIBRATION_MARK_MM, CALIBRATION_RULER_MM, CalibrationPaper, createCalibrationPage } from '../services/printCalibration';
+
+interface PrinterCalibrationModalProps {
+  isOpen: boolean;
+  profile: PrinterProfile | null; // null = new profile
+  onClose: () => void;
+  onSave: (profile: PrinterProfile) => void;
+}
+
+// What the user measures on the printed test page, in mm
+interface Measurements {
+  markLeft: number;
+  markTop: number;
+  rulerX: number;
+  rulerY: number;
+}
+
+type MeasurementField = keyof Measurements;
+
+const MEASUREMENT_FIELDS: { key: MeasurementField; label: string; expected: number }[] = [
+  { key: 'markLeft', label: 'Left edge to crosshair', expected: CALIBRATION_MARK_MM },
+  { key: 'markTop', label: 'Top edge to crosshair', expected: CALIBRATION_MARK_MM },
+  { key: 'rulerX', label: 'Horizontal ruler length', expected: CALIBRATION_RULER_MM },
+  { key: 'rulerY', label: 'Vertical ruler length', expected: CALIBRATION_RULER_MM },
+];
+
+const toMeasurements = (profile: PrinterProfile | null): Measurements => ({
+  markLeft: CALIBRATION_MARK_MM + (profile?.offsetX ?? 0),
+  markTop: CALIBRATION_MARK_MM + (profile?.offsetY ?? 0),
+  rulerX: CALIBRATION_RULER_MM * (profile?.scaleX ?? 100) / 100,
+  rulerY: CALIBRATION_RULER_MM * (profile?.scaleY ?? 100) / 100,
+});
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const PrinterCalibrationModal: React.FC<PrinterCalibrationModalProps> = ({ isOpen, profile, onClose, onSave }) => {
+  const [name, setName] = useState('');
+  const [measurements, setMeasurements] = useState<Measurements>(toMeasurements(null));
+  const [paper, setPaper] = useState<CalibrationPaper>('letter');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(profile?.name ?? '');
+    setMeasurements(toMeasurements(profile));
+  }, [isOpen, profile]);
+
+  if (!isOpen) return null;
+
+  const isValid = name.trim() !== '' &&
+    MEASUREMENT_FIELDS.every(field => Number.isFinite(measurements[field.key]) && measurements[field.key] > 0);
+
+  const offsetX = round(measurements.markLeft - CALIBRATION_MARK_MM, 2);
+  const offsetY = round(measurements.markTop - CALIBRATION_MARK_MM, 2);
+  const scaleX = round(measurements.rulerX / CALIBRATION_RULER_MM * 100, 3);
+  const scaleY = round(measurements.rulerY / CALIBRATION_RULER_MM * 100, 3);
+
+  const handleDownloadTestPage = () => {
+    createCalibrationPage(paper).save(`calibration-${paper}.pdf`);
+  };
+
+  const handleSave = () => {
+    onSave({ id: profile?.id ?? '', name: name.trim(), offsetX, offsetY, scaleX, scaleY });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-[60] flex items-center justify-center backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200 border border-zinc-800">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between bg-zinc-900">
+          <h3 className="font-bold text-zinc-100 flex items-center gap-2">
+            <Crosshair className="text-blue-500" size={20} />
+            {profile ? 'Edit Printer Calibration' : 'Calibrate Printer'}
+          </h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          <div>
+            <h4 className="text-xs font-semibold text-zinc-400 mb-2">1. Print the test page</h4>
+            <div className="flex gap-2">
+              <select
+                value={paper}
+                onChange={(e) => setPaper(e.target.value as CalibrationPaper)}
+                className="flex-1 p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="letter">Letter (US)</option>
+                <option value="a4">A4 (Intl)</option>
+              </select>
+              <button
+                onClick={handleDownloadTestPage}
+                className="px-3 py-2 text-sm rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200 flex items-center gap-2"
+              >
+                <Download size={14} /> Test Page
+              </button>
+            </div>
+            <p className="text-[11px] text-zinc-600 mt-1 leading-snug">
+              Print it at actual size (100%, no fit to page) on the printer you are calibrating.
+            </p>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-semibold text-zinc-400 mb-2">2. Enter what you measured (mm)</h4>
+            <div className="grid grid-cols-2 gap-3">
+              {MEASUREMENT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-medium text-zinc-500 mb-1">{field.label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={Number.isNaN(measurements[field.key]) ? '' : measurements[field.key]}
+                    onChange={(e) => setMeasurements(prev => ({ ...prev, [field.key]: parseFloat(e.target.value) }))}
+                    className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                  <div className="text-[11px] text-zinc-600 mt-0.5">Should be {field.expected} mm</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {isValid && (
+            <div className="p-2 rounded bg-zinc-800/50 border border-zinc-800 text-xs text-zinc-400 space-y-0.5 font-mono">
+              <div>Offset {offsetX > 0 ? '+' : ''}{offsetX} mm right, {offsetY > 0 ? '+' : ''}{offsetY} mm down</div>
+              <div>Scale {scaleX}% x {scaleY}%</div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-zinc-400 mb-2">3. Save as a profile</h4>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Office LaserJet, tray 2"
+              className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 bg-zinc-900 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-zinc-400 hover:bg-zinc-800 rounded-lg text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className={`px-4 py-2 text-white rounded-lg text-sm font-medium shadow-sm transition-colors flex items-center gap-2 ${!isValid ? 'bg-zinc-700 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}`}
+          >
+            <Save size={16} /> Save Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrinterCalibrationModal;
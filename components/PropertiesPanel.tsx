@@ -1,9 +1,19 @@
 import React, { useEffect, useState, useRef } from 'react';
 import * as fabric from 'fabric';
-import { DataField } from '../types';
-import { updateObjectDataKey, updateObjectColor, updateObjectStroke, updateObjectStrokeWidth } from '../services/fabricHelper';
-import { Trash2, AlignLeft, AlignCenter, AlignRight, Layers, Type, Image as ImageIcon, Box, Hash, QrCode, X, Palette, List, PenTool, Minus, Square, Circle, Triangle } from 'lucide-react';
-import { AVAILABLE_FONTS } from '../constants';
+import { BarcodeFormat, CustomFont, DataField, MatrixCodeType, ValueFormat } from '../types';
+import { updateObjectDataKey, updateObjectColor, updateObjectStroke, updateObjectStrokeWidth, insertPlaceholder, updateBarcodeFormat, updateCodeSettings, CodeSettings, isCodeSymbol, isTextObject, isTextFrame, ObjectFrame, getObjectFrame, updateObjectFrame, updateValueFormat } from '../services/fabricHelper';
+import { BARCODE_FORMATS, getBarcodeFormat } from '../services/barcodeSymbology';
+import { MATRIX_CODE_TYPES, getMatrixType } from '../services/matrixCodes';
+import { getModuleSize, getBarHeight, getCodeQuietZone } from '../services/codeGeometry';
+import { extractPlaceholders, makePlaceholder } from '../services/placeholders';
+import { AlignMode, DistributeAxis, alignSelection, distributeSelection } from '../services/alignment';
+import { TextFrame } from '../services/textFrame';
+import { FONT_FILE_ACCEPT } from '../services/customFonts';
+import { DEFAULT_VALUE_FORMAT } from '../services/valueFormat';
+import ValueFormatEditor from './ValueFormatEditor';
+import { CharStyleKey, CharStyles, TEXT_CASES, TextCase, getCharStyles, getTextCase, setCharStyle, updateTextCase } from '../services/textStyle';
+import { Trash2, AlignLeft, AlignCenter, AlignRight, Layers, Type, Image as ImageIcon, Box, Hash, QrCode, ScanQrCode, X, Palette, List, PenTool, Minus, Square, Circle, Triangle, AlertTriangle, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Upload, Bold, Italic, Underline } from 'lucide-react';
+import { AVAILABLE_FONTS, LengthUnit, UNIT_INFO, convertLength, convertLengthRounded } from '../constants';
 
 interface PropertiesPanelProps {
   activeObject: fabric.Object | null;
@@ -12,14 +22,55 @@ interface PropertiesPanelProps {
   onDelete: () => void;
   onUpdate: () => void; // Trigger canvas render
   availableFields: DataField[];
+  customFonts: CustomFont[];
+  onUploadFont: (file: File) => void;
+  onDeleteFont: (font: CustomFont) => void;
+  unit: LengthUnit; // Template unit for position and size
+  nudgeStep: number; // mm moved per arrow key press
+  onNudgeStepChange: (mm: number) => void;
   onClose?: () => void; // New prop for mobile
 }
 
+interface FrameInputProps {
+  label: string;
+  value: number;
+  step: number;
+  disabled?: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Commits on Enter or blur so half-typed numbers don't move the object
+const FrameInput: React.FC<FrameInputProps> = ({ label, value, step, disabled, onCommit }) => {
+  const commit = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    const parsed = parseFloat(e.currentTarget.value);
+    if (Number.isFinite(parsed) && parsed !== value) onCommit(parsed);
+    else e.currentTarget.value = String(value);
+  };
+
+  return (
+    <label className={`flex items-center gap-1.5 bg-zinc-800/50 px-2 py-1 rounded border border-zinc-800 focus-within:border-blue-500 ${disabled ? 'opacity-50' : ''}`}>
+      <span className="text-xs text-zinc-500 w-3">{label}</span>
+      <input
+        key={value} // Re-mount when the object changes from the canvas
+        type="number"
+        step={step}
+        defaultValue={value}
+        disabled={disabled}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-full min-w-0 bg-transparent text-sm font-mono text-zinc-200 outline-none"
+      />
+    </label>
+  );
+};
+
 const getIconForType = (obj: any) => {
   if (obj.isBarcode) return <Hash size={14} className="text-emerald-500" />;
   if (obj.isQrCode) return <QrCode size={14} className="text-purple-500" />;
-  if (obj.type === 'i-text' || obj.type === 'text') {
-      return <Type size={14} className={obj.dataKey ? "text-blue-500" : "text-zinc-400"} />;
+  if (obj.isMatrixCode) return <ScanQrCode size={14} className="text-teal-500" />;
+  if (obj.type === 'i-text' || obj.type === 'text' || obj.type === 'textframe') {
+      const isBound = obj.dataKey || extractPlaceholders(obj.text || '').length > 0;
+      return <Type size={14} className={isBound ? "text-blue-500" : "text-zinc-400"} />;
   }
   if (obj.type === 'image') return <ImageIcon size={14} className="text-orange-500" />;
   if (obj.type === 'rect') return <Square size={14} className="text-zinc-400" />;
@@ -30,17 +81,37 @@ const getIconForType = (obj: any) => {
 };
 
 const getNameForType = (obj: any) => {
-  if (obj.isBarcode) return `Barcode: ${obj.dataKey}`;
+  if (obj.isBarcode) return `${BARCODE_FORMATS[getBarcodeFormat(obj)].label}: ${obj.dataKey}`;
   if (obj.isQrCode) return `QR: ${obj.dataKey}`;
+  if (obj.isMatrixCode) return `${MATRIX_CODE_TYPES[getMatrixType(obj)].label}: ${obj.dataKey}`;
+  if (obj.text && extractPlaceholders(obj.text).length > 0) return `Var: ${extractPlaceholders(obj.text).join(', ')}`;
   if (obj.dataKey) return `Var: ${obj.dataKey}`;
   if (obj.text) return `Text: ${obj.text.substring(0, 10)}...`;
   if (obj.type === 'rect') return 'Rectangle';
   if (obj.type === 'circle') return 'Circle';
   if (obj.type === 'triangle') return 'Triangle';
   if (obj.type === 'line') return 'Line';
+  if (obj instanceof fabric.ActiveSelection) return `${obj.size()} objects`;
   return obj.type;
 };
 
+type TextFrameSettings = Pick<TextFrame, 'maxLines' | 'shrinkToFit' | 'minFontSize' | 'ellipsis'>;
+
+const CHAR_STYLE_BUTTONS: { key: CharStyleKey; title: string; Icon: React.ElementType }[] = [
+  { key: 'bold', title: 'Bold', Icon: Bold },
+  { key: 'italic', title: 'Italic', Icon: Italic },
+  { key: 'underline', title: 'Underline', Icon: Underline },
+];
+
+const ALIGN_BUTTONS: { mode: AlignMode; title: string; Icon: React.ElementType }[] = [
+  { mode: 'left', title: 'Align left', Icon: AlignStartVertical },
+  { mode: 'center', title: 'Align centre', Icon: AlignCenterVertical },
+  { mode: 'right', title: 'Align right', Icon: AlignEndVertical },
+  { mode: 'top', title: 'Align top', Icon: AlignStartHorizontal },
+  { mode: 'middle', title: 'Align middle', Icon: AlignCenterHorizontal },
+  { mode: 'bottom', title: 'Align bottom', Icon: AlignEndHorizontal },
+];
+
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ 
   activeObject, 
   layers,
@@ -48,6 +119,12 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   onDelete, 
   onUpdate, 
   availableFields,
+  customFonts,
+  onUploadFont,
+  onDeleteFont,
+  unit,
+  nudgeStep,
+  onNudgeStepChange,
   onClose
 }) => {
   const [dataKey, setDataKey] = useState<string>('');
@@ -57,25 +134,57 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   const [color, setColor] = useState<string>('#000000');
   const [strokeColor, setStrokeColor] = useState<string>('#000000');
   const [strokeWidth, setStrokeWidth] = useState<number>(1);
+  const [textContent, setTextContent] = useState<string>('');
+  const [barcodeFormat, setBarcodeFormat] = useState<BarcodeFormat>('CODE128');
+  const [matrixType, setMatrixType] = useState<MatrixCodeType>('datamatrix');
+  const [moduleSize, setModuleSize] = useState<number>(0.5);
+  const [quietZone, setQuietZone] = useState<number>(1);
+  const [barHeight, setBarHeight] = useState<number>(13);
+  const [showText, setShowText] = useState<boolean>(true);
+  const [codeColumns, setCodeColumns] = useState<number>(0);
+  const [codeShape, setCodeShape] = useState<'square' | 'rectangle'>('square');
+  const [valueFormats, setValueFormats] = useState<Record<string, ValueFormat>>({});
+  const [charStyles, setCharStyles] = useState<CharStyles>({ bold: false, italic: false, underline: false });
+  const [charSpacing, setCharSpacing] = useState<number>(0);
+  const [lineHeight, setLineHeight] = useState<number>(1.16);
+  const [textCase, setTextCase] = useState<TextCase>('none');
+  const [frameSettings, setFrameSettings] = useState<TextFrameSettings>({ maxLines: 0, shrinkToFit: true, minFontSize: 8, ellipsis: true });
   
   // View State
   const [activeTab, setActiveTab] = useState<'properties' | 'layers'>('layers');
   const selectedLayerRef = useRef<HTMLButtonElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
 
   // Sync state with activeObject
   useEffect(() => {
     if (activeObject) {
       // Sync Property States
       setDataKey((activeObject as any).dataKey || '');
+      setValueFormats((activeObject as any).valueFormats || {});
       setColor((activeObject.fill as string) || '#000000');
       setStrokeColor((activeObject.stroke as string) || '#000000');
       setStrokeWidth(activeObject.strokeWidth || 0);
+      setBarcodeFormat(getBarcodeFormat(activeObject as any));
+      setMatrixType(getMatrixType(activeObject as any));
+      setQuietZone(getCodeQuietZone(activeObject as any));
+      setModuleSize(getModuleSize(activeObject as any));
+      setBarHeight(getBarHeight(activeObject as any));
+      setShowText((activeObject as any).showText !== false);
+      setCodeColumns((activeObject as any).codeColumns || 0);
+      setCodeShape((activeObject as any).codeShape || 'square');
       
-      if (activeObject.type === 'i-text' || activeObject.type === 'text') {
-        const textObj = activeObject as fabric.IText;
+      if (isTextObject(activeObject)) {
+        const textObj = activeObject;
         setFontSize(textObj.fontSize || 14);
         setTextAlign(textObj.textAlign || 'left');
         setFontFamily(textObj.fontFamily || 'Arial');
+        setCharSpacing(textObj.charSpacing || 0);
+        setLineHeight(textObj.lineHeight || 1.16);
+        setTextCase(getTextCase(textObj));
+      }
+      if (isTextFrame(activeObject)) {
+        const { maxLines, shrinkToFit, minFontSize, ellipsis } = activeObject;
+        setFrameSettings({ maxLines, shrinkToFit, minFontSize, ellipsis });
       }
 
       // Switch to properties tab when object is selected
@@ -86,6 +195,25 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     }
   }, [activeObject]);
 
+  // Track live text edits so the placeholder list stays current while typing
+  useEffect(() => {
+    if (!isTextObject(activeObject)) return;
+    const textObj = activeObject;
+    const syncText = () => setTextContent(textObj.text || '');
+    // Style buttons show the selected characters while editing
+    const syncCharStyles = () => setCharStyles(getCharStyles(textObj));
+    syncText();
+    syncCharStyles();
+    textObj.on('changed', syncText);
+    textObj.on('selection:changed', syncCharStyles);
+    textObj.on('editing:exited', syncCharStyles);
+    return () => {
+      textObj.off('changed', syncText);
+      textObj.off('selection:changed', syncCharStyles);
+      textObj.off('editing:exited', syncCharStyles);
+    };
+  }, [activeObject]);
+
   // Scroll to selected layer when visible
   useEffect(() => {
     if (activeTab === 'layers' && activeObject && selectedLayerRef.current) {
@@ -103,6 +231,60 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     onUpdate();
   };
 
+  const handleValueFormatChange = (key: string, format: ValueFormat) => {
+    if (!activeObject) return;
+    updateValueFormat(activeObject, key, format);
+    setValueFormats((activeObject as any).valueFormats || {});
+    onUpdate();
+  };
+
+  const renderValueFormat = (key: string) => (
+    <ValueFormatEditor
+      key={key}
+      fieldKey={key}
+      format={valueFormats[key] ?? DEFAULT_VALUE_FORMAT}
+      onChange={(format) => handleValueFormatChange(key, format)}
+    />
+  );
+
+  const handleBarcodeFormatChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!activeObject) return;
+    const format = e.target.value as BarcodeFormat;
+    setBarcodeFormat(format);
+    updateBarcodeFormat(activeObject, format);
+    onUpdate();
+  };
+
+  const handleCodeSettingsChange = (settings: CodeSettings) => {
+    if (!activeObject) return;
+    updateCodeSettings(activeObject, settings);
+    onUpdate();
+  };
+
+  const handleMatrixTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const type = e.target.value as MatrixCodeType;
+    setMatrixType(type);
+    // Each symbology has its own recommended quiet zone
+    setQuietZone(MATRIX_CODE_TYPES[type].quietZone);
+    handleCodeSettingsChange({ matrixType: type, quietZone: MATRIX_CODE_TYPES[type].quietZone });
+  };
+
+  // Millimetre inputs: keep the typed text, apply only positive values
+  const handleMmChange = (setter: (value: number) => void, key: 'moduleSize' | 'barHeight') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const mm = parseFloat(e.target.value);
+    if (!Number.isFinite(mm)) return; // A cleared field keeps the current size
+    setter(mm);
+    if (mm > 0) handleCodeSettingsChange({ [key]: mm });
+  };
+
+  const handleInsertField = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!activeObject || !e.target.value) return;
+    const textObj = activeObject as fabric.IText;
+    insertPlaceholder(textObj, e.target.value);
+    setTextContent(textObj.text || '');
+    onUpdate();
+  };
+
   const handleColorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!activeObject) return;
     const newColor = e.target.value;
@@ -131,8 +313,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     if (!activeObject) return;
     const size = parseInt(e.target.value, 10);
     setFontSize(size);
-    if (activeObject.type === 'i-text' || activeObject.type === 'text') {
-      (activeObject as fabric.IText).set('fontSize', size);
+    if (isTextObject(activeObject)) {
+      activeObject.set('fontSize', size);
       activeObject.canvas?.requestRenderAll();
       onUpdate();
     }
@@ -142,36 +324,120 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     if (!activeObject) return;
     const font = e.target.value;
     setFontFamily(font);
-    if (activeObject.type === 'i-text' || activeObject.type === 'text') {
-      (activeObject as fabric.IText).set('fontFamily', font);
+    if (isTextObject(activeObject)) {
+      activeObject.set('fontFamily', font);
       activeObject.canvas?.requestRenderAll();
       onUpdate();
     }
   };
 
+  const handleFontUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onUploadFont(file);
+    e.target.value = '';
+  };
+
   const handleAlign = (align: string) => {
     if (!activeObject) return;
     setTextAlign(align);
-    if (activeObject.type === 'i-text' || activeObject.type === 'text') {
-      (activeObject as fabric.IText).set('textAlign', align);
+    if (isTextObject(activeObject)) {
+      activeObject.set('textAlign', align);
       activeObject.canvas?.requestRenderAll();
       onUpdate();
     }
   };
 
+  const handleCharStyleToggle = (key: CharStyleKey) => {
+    if (!isTextObject(activeObject)) return;
+    setCharStyle(activeObject, key, !charStyles[key]);
+    setCharStyles(getCharStyles(activeObject));
+    onUpdate();
+  };
+
+  const handleCharSpacingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!isTextObject(activeObject)) return;
+    const spacing = parseInt(e.target.value, 10);
+    setCharSpacing(spacing);
+    activeObject.set('charSpacing', spacing);
+    activeObject.setCoords();
+    activeObject.canvas?.requestRenderAll();
+    onUpdate();
+  };
+
+  const handleLineHeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!isTextObject(activeObject)) return;
+    const height = parseFloat(e.target.value);
+    setLineHeight(height);
+    activeObject.set('lineHeight', height);
+    activeObject.setCoords();
+    activeObject.canvas?.requestRenderAll();
+    onUpdate();
+  };
+
+  const handleTextCaseChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!isTextObject(activeObject)) return;
+    const value = e.target.value as TextCase;
+    setTextCase(value);
+    updateTextCase(activeObject, value);
+    onUpdate();
+  };
+
+  const handleFrameSettingsChange = (changes: Partial<TextFrameSettings>) => {
+    if (!isTextFrame(activeObject)) return;
+    setFrameSettings(prev => ({ ...prev, ...changes }));
+    activeObject.set(changes);
+    activeObject.canvas?.requestRenderAll();
+    onUpdate();
+  };
+
+  // Align/distribute go through the canvas so a multi-selection is re-created afterwards
+  const handleArrange = (mode: AlignMode) => {
+    if (!activeObject?.canvas) return;
+    alignSelection(activeObject.canvas as fabric.Canvas, mode);
+    onUpdate();
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    if (!activeObject?.canvas) return;
+    distributeSelection(activeObject.canvas as fabric.Canvas, axis);
+    onUpdate();
+  };
+
+  // Position and size in the template unit
+  const toUnit = (px: number) => convertLengthRounded(px, 'px', unit);
+  const handleFrameChange = (changes: Partial<ObjectFrame>) => {
+    if (!activeObject) return;
+    updateObjectFrame(activeObject, changes);
+    onUpdate();
+  };
+  const frame = activeObject ? getObjectFrame(activeObject) : null;
+  const unitStep = UNIT_INFO[unit].step;
+  const selectionCount = activeObject instanceof fabric.ActiveSelection ? activeObject.size() : 1;
+  const isSizeLocked = !!activeObject && (activeObject.lockScalingX || activeObject.lockScalingY);
+
   // Helper booleans for property rendering
-  const isVariable = activeObject && !!(activeObject as any).dataKey;
-  const isText = activeObject && (activeObject.type === 'i-text' || activeObject.type === 'text');
+  const isText = isTextObject(activeObject);
+  const textFrame = isTextFrame(activeObject) ? activeObject : null;
+  const selectedCustomFont = customFonts.find(font => font.family === fontFamily);
+  // Templates can name an uploaded font this browser doesn't have
+  const isMissingFont = !selectedCustomFont && !AVAILABLE_FONTS.includes(fontFamily);
   const isImage = activeObject && activeObject.type === 'image';
   const isShape = activeObject && ['rect', 'circle', 'triangle', 'line', 'polygon'].includes(activeObject.type || '');
   const isLine = activeObject && activeObject.type === 'line';
 
-  const isColorableImage = activeObject && ((activeObject as any).isBarcode || (activeObject as any).isQrCode);
+  const isBarcode = activeObject && !!(activeObject as any).isBarcode;
+  const isMatrixCode = activeObject && !!(activeObject as any).isMatrixCode;
+  const isColorableImage = isCodeSymbol(activeObject);
   
   // Logic for what properties to show
   const showFillPicker = isText || isColorableImage || (isShape && !isLine);
   const showStrokeControls = isShape;
 
+  // Placeholder tokens in the current text, split by whether the data source has a matching column
+  const placeholders = isText ? extractPlaceholders(textContent) : [];
+  const fieldKeys = availableFields.map(f => f.value);
+  const unboundPlaceholders = placeholders.filter(key => !fieldKeys.includes(key));
+
   return (
     <div className="w-72 bg-zinc-900 border-l border-zinc-800 h-full flex flex-col shadow-xl lg:shadow-none text-zinc-100">
       
@@ -263,35 +529,210 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                </div>
             </div>
 
-            {/* Data Binding Section (Only if applicable) */}
-            {(isText || isColorableImage) && (
+            {/* Data Fields Section (Text with inline placeholders) */}
+            {isText && (
+              <div className="space-y-2">
+                <label className="text-xs font-semibold text-zinc-500 uppercase">Data Fields</label>
+                {placeholders.length > 0 ? (
+                  <div className="flex flex-wrap gap-1.5">
+                    {placeholders.map(key => {
+                      const isBound = fieldKeys.includes(key);
+                      return (
+                        <span
+                          key={key}
+                          title={isBound ? 'Bound to data column' : 'No matching column in the data source'}
+                          className={`text-xs font-mono px-2 py-0.5 rounded border ${isBound ? 'bg-blue-900/20 border-blue-900/50 text-blue-300' : 'bg-red-900/20 border-red-900/30 text-red-400'}`}
+                        >
+                          {makePlaceholder(key)}
+                        </span>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="text-sm text-zinc-500 italic bg-zinc-800/50 p-2 rounded border border-zinc-800">
+                    Static text. Type {makePlaceholder('field')} anywhere to insert data.
+                  </div>
+                )}
+                {unboundPlaceholders.length > 0 && (
+                  <div className="text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/30 flex items-start gap-1.5">
+                    <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                    <span>
+                      {unboundPlaceholders.length === 1 ? 'Field' : 'Fields'} <strong>{unboundPlaceholders.join(', ')}</strong> not found in the data source and will print as typed.
+                    </span>
+                  </div>
+                )}
+                {availableFields.length > 0 && (
+                  <select 
+                    value=""
+                    onChange={handleInsertField}
+                    className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                  >
+                    <option value="" disabled>Insert Field...</option>
+                    {availableFields.map(field => (
+                      <option key={field.value} value={field.value}>{field.label}</option>
+                    ))}
+                  </select>
+                )}
+                {placeholders.map(renderValueFormat)}
+              </div>
+            )}
+
+            {/* Data Binding Section (Barcodes, QR & 2D Codes) */}
+            {isColorableImage && (
               <div className="space-y-2">
                 <label className="text-xs font-semibold text-zinc-500 uppercase">Data Binding</label>
-                {isVariable || isColorableImage ? (
-                  availableFields.length > 0 ? (
-                    <select 
-                      value={dataKey} 
-                      onChange={handleDataKeyChange}
+                {availableFields.length > 0 ? (
+                  <select 
+                    value={dataKey} 
+                    onChange={handleDataKeyChange}
+                    className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                  >
+                    <option value="" disabled>Select Field</option>
+                    {availableFields.map(field => (
+                      <option key={field.value} value={field.value}>{field.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="text-sm text-red-400 bg-red-900/20 p-2 rounded border border-red-900/30">
+                    No CSV data loaded. Please import a CSV file to bind fields.
+                  </div>
+                )}
+                {dataKey && renderValueFormat(dataKey)}
+              </div>
+            )}
+
+            {/* Barcode Symbology */}
+            {isBarcode && (
+              <div className="space-y-2">
+                <label className="text-xs font-semibold text-zinc-500 uppercase">Symbology</label>
+                <select 
+                  value={barcodeFormat} 
+                  onChange={handleBarcodeFormatChange}
+                  className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                >
+                  {(Object.keys(BARCODE_FORMATS) as BarcodeFormat[]).map(format => (
+                    <option key={format} value={format}>{BARCODE_FORMATS[format].label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-zinc-500 leading-snug">{BARCODE_FORMATS[barcodeFormat].hint}</p>
+              </div>
+            )}
+
+            {/* 2D Code Settings */}
+            {isMatrixCode && (
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold text-zinc-500 uppercase">Symbology</label>
+                  <select 
+                    value={matrixType} 
+                    onChange={handleMatrixTypeChange}
+                    className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                  >
+                    {(Object.keys(MATRIX_CODE_TYPES) as MatrixCodeType[]).map(type => (
+                      <option key={type} value={type}>{MATRIX_CODE_TYPES[type].label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-zinc-500 leading-snug">{MATRIX_CODE_TYPES[matrixType].hint}</p>
+                </div>
+
+                {matrixType === 'pdf417' && (
+                  <div className="space-y-1">
+                    <label className="text-xs font-semibold text-zinc-500 uppercase">Data Columns</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="30"
+                      value={codeColumns}
+                      onChange={(e) => {
+                        const columns = Math.min(30, Math.max(0, parseInt(e.target.value, 10) || 0));
+                        setCodeColumns(columns);
+                        handleCodeSettingsChange({ codeColumns: columns });
+                      }}
                       className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
-                    >
-                      <option value="" disabled>Select Field</option>
-                      {availableFields.map(field => (
-                        <option key={field.value} value={field.value}>{field.label}</option>
+                    />
+                    <p className="text-xs text-zinc-500">0 picks the column count automatically.</p>
+                  </div>
+                )}
+
+                {(matrixType === 'datamatrix' || matrixType === 'gs1datamatrix') && (
+                  <div className="space-y-1">
+                    <label className="text-xs font-semibold text-zinc-500 uppercase">Shape</label>
+                    <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                      {(['square', 'rectangle'] as const).map(shape => (
+                        <button
+                          key={shape}
+                          onClick={() => { setCodeShape(shape); handleCodeSettingsChange({ codeShape: shape }); }}
+                          className={`flex-1 py-1 rounded text-xs capitalize transition-all ${codeShape === shape ? 'bg-zinc-700 shadow text-blue-400' : 'hover:bg-zinc-700 text-zinc-500'}`}
+                        >
+                          {shape}
+                        </button>
                       ))}
-                    </select>
-                  ) : (
-                    <div className="text-sm text-red-400 bg-red-900/20 p-2 rounded border border-red-900/30">
-                      No CSV data loaded. Please import a CSV file to bind fields.
                     </div>
-                  )
-                ) : (
-                  <div className="text-sm text-zinc-500 italic bg-zinc-800/50 p-2 rounded border border-zinc-800">
-                    No data binding available.
                   </div>
                 )}
               </div>
             )}
 
+            {/* Code Size */}
+            {isColorableImage && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <label className="text-xs font-semibold text-zinc-500 uppercase">{isBarcode ? 'X-Dim (mm)' : 'Module (mm)'}</label>
+                    <input
+                      type="number"
+                      min="0.1"
+                      step="0.01"
+                      value={moduleSize}
+                      onChange={handleMmChange(setModuleSize, 'moduleSize')}
+                      className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                      title={isBarcode ? 'Width of the narrowest bar' : 'Width of one module'}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-semibold text-zinc-500 uppercase">Quiet Zone</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      value={quietZone}
+                      onChange={(e) => {
+                        const modules = Math.max(0, parseInt(e.target.value, 10) || 0);
+                        setQuietZone(modules);
+                        handleCodeSettingsChange({ quietZone: modules });
+                      }}
+                      className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                      title="Blank margin around the code, in modules"
+                    />
+                  </div>
+                  {isBarcode && (
+                    <div className="space-y-1">
+                      <label className="text-xs font-semibold text-zinc-500 uppercase">Height (mm)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        step="0.5"
+                        value={barHeight}
+                        onChange={handleMmChange(setBarHeight, 'barHeight')}
+                        className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                      />
+                    </div>
+                  )}
+                  {isBarcode && (
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 self-end pb-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={showText}
+                        onChange={(e) => { setShowText(e.target.checked); handleCodeSettingsChange({ showText: e.target.checked }); }}
+                        className="accent-blue-600"
+                      />
+                      Show text
+                    </label>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Fill Color Picker */}
             {showFillPicker && (
                <div className="space-y-2">
@@ -371,19 +812,51 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 
                 <div className="space-y-2">
                   <label className="text-xs font-semibold text-zinc-500 uppercase">Font Family</label>
-                  <select
-                    value={fontFamily}
-                    onChange={handleFontFamilyChange}
-                    className="w-full p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
-                  >
-                    {AVAILABLE_FONTS.map(font => (
-                      <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
-                    ))}
-                  </select>
+                  <div className="flex gap-2">
+                    <select
+                      value={fontFamily}
+                      onChange={handleFontFamilyChange}
+                      className="flex-1 min-w-0 p-2 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                    >
+                      {isMissingFont && <option value={fontFamily}>{fontFamily} (not installed)</option>}
+                      <optgroup label="System Fonts">
+                        {AVAILABLE_FONTS.map(font => (
+                          <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+                        ))}
+                      </optgroup>
+                      {customFonts.length > 0 && (
+                        <optgroup label="Uploaded Fonts">
+                          {customFonts.map(font => (
+                            <option key={font.id} value={font.family} style={{ fontFamily: `"${font.family}"` }}>{font.family}</option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                    <button
+                      onClick={() => fontInputRef.current?.click()}
+                      className="p-2 rounded-md border border-zinc-700 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+                      title="Upload font (TTF, OTF, WOFF)"
+                    >
+                      <Upload size={16} />
+                    </button>
+                    {selectedCustomFont && (
+                      <button
+                        onClick={() => onDeleteFont(selectedCustomFont)}
+                        className="p-2 rounded-md border border-zinc-700 text-zinc-400 hover:text-red-400 hover:bg-red-900/30"
+                        title={`Remove ${selectedCustomFont.family} from the font library`}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                    <input ref={fontInputRef} type="file" accept={FONT_FILE_ACCEPT} onChange={handleFontUpload} className="hidden" />
+                  </div>
+                  {selectedCustomFont?.format === 'opentype' && (
+                    <p className="text-[10px] text-amber-500">OpenType (CFF) font: PDF exports draw this text as an image.</p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
-                  <label className="text-xs font-semibold text-zinc-500 uppercase">Font Size</label>
+                  <label className="text-xs font-semibold text-zinc-500 uppercase">{textFrame ? 'Max Font Size' : 'Font Size'}</label>
                   <div className="flex items-center gap-2">
                     <input 
                       type="range" 
@@ -397,6 +870,68 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold text-zinc-500 uppercase">Style</label>
+                  <div className="flex gap-2">
+                    <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                      {CHAR_STYLE_BUTTONS.map(({ key, title, Icon }) => (
+                        <button
+                          key={key}
+                          // Keeps focus in the text being edited so its selection stays
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => handleCharStyleToggle(key)}
+                          className={`px-2 py-1 rounded flex justify-center transition-all ${charStyles[key] ? 'bg-zinc-700 shadow text-blue-400' : 'hover:bg-zinc-700 text-zinc-500'}`}
+                          title={`${title} (selected characters while editing)`}
+                        >
+                          <Icon size={16} />
+                        </button>
+                      ))}
+                    </div>
+                    <select
+                      value={textCase}
+                      onChange={handleTextCaseChange}
+                      className="flex-1 min-w-0 p-1.5 text-sm border border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-zinc-950 text-zinc-200"
+                      title="Letter case"
+                    >
+                      {TEXT_CASES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold text-zinc-500 uppercase">Letter Spacing</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min="-100"
+                      max="800"
+                      step="10"
+                      value={charSpacing}
+                      onChange={handleCharSpacingChange}
+                      className="flex-1 accent-blue-600 bg-zinc-800"
+                    />
+                    <span className="text-sm font-mono w-10 text-right text-zinc-300" title="Thousandths of an em">{charSpacing}</span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold text-zinc-500 uppercase">Line Height</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min="0.7"
+                      max="2.5"
+                      step="0.05"
+                      value={lineHeight}
+                      onChange={handleLineHeightChange}
+                      className="flex-1 accent-blue-600 bg-zinc-800"
+                    />
+                    <span className="text-sm font-mono w-8 text-right text-zinc-300">{lineHeight.toFixed(2)}</span>
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <label className="text-xs font-semibold text-zinc-500 uppercase">Alignment</label>
                   <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
@@ -423,20 +958,112 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
               </div>
             )}
 
-            {/* Position Info (Read Only) */}
+            {/* Text Frame Fitting */}
+            {textFrame && (
+              <div className="space-y-3 pt-4 border-t border-zinc-800">
+                <label className="text-xs font-semibold text-zinc-500 uppercase">Text Fitting</label>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-zinc-400">Max lines (0 = no limit)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={frameSettings.maxLines}
+                    onChange={(e) => handleFrameSettingsChange({ maxLines: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    className="w-16 p-1 text-sm border border-zinc-700 rounded bg-zinc-950 text-zinc-200 outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={frameSettings.shrinkToFit}
+                      onChange={(e) => handleFrameSettingsChange({ shrinkToFit: e.target.checked })}
+                      className="accent-blue-500"
+                    />
+                    Shrink to fit, down to
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={fontSize}
+                    step="0.5"
+                    value={frameSettings.minFontSize}
+                    disabled={!frameSettings.shrinkToFit}
+                    onChange={(e) => {
+                      const size = parseFloat(e.target.value);
+                      if (size > 0) handleFrameSettingsChange({ minFontSize: size });
+                    }}
+                    className="w-16 p-1 text-sm border border-zinc-700 rounded bg-zinc-950 text-zinc-200 outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-40"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={frameSettings.ellipsis}
+                    onChange={(e) => handleFrameSettingsChange({ ellipsis: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                  End cut-off text with …
+                </label>
+                <p className="text-[11px] text-zinc-600 leading-snug">
+                  Text is fitted for each data row in previews and exports. Drag the side handles to resize the frame.
+                </p>
+              </div>
+            )}
+
+            {/* Arrange */}
             <div className="space-y-2 pt-4 border-t border-zinc-800">
-               <label className="text-xs font-semibold text-zinc-500 uppercase">Position</label>
-               <div className="grid grid-cols-2 gap-2 text-sm">
-                 <div className="bg-zinc-800/50 p-2 rounded text-zinc-300 flex justify-between">
-                   <span className="text-zinc-500">X</span> 
-                   <span className="font-mono">{Math.round(activeObject.left || 0)}</span>
-                 </div>
-                 <div className="bg-zinc-800/50 p-2 rounded text-zinc-300 flex justify-between">
-                   <span className="text-zinc-500">Y</span> 
-                   <span className="font-mono">{Math.round(activeObject.top || 0)}</span>
+               <label className="text-xs font-semibold text-zinc-500 uppercase">
+                 Align {selectionCount > 1 ? 'Selection' : 'to Label'}
+               </label>
+               <div className="flex gap-1">
+                 {ALIGN_BUTTONS.map(({ mode, title, Icon }) => (
+                   <button key={mode} onClick={() => handleArrange(mode)} title={title} className="flex-1 p-2 rounded bg-zinc-800/50 hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 flex justify-center">
+                     <Icon size={16} />
+                   </button>
+                 ))}
+               </div>
+               {selectionCount > 2 && (
+                 <div className="flex gap-1">
+                   <button onClick={() => handleDistribute('horizontal')} className="flex-1 p-2 rounded bg-zinc-800/50 hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 flex items-center justify-center gap-1.5 text-xs">
+                     <AlignHorizontalDistributeCenter size={16} /> Distribute H
+                   </button>
+                   <button onClick={() => handleDistribute('vertical')} className="flex-1 p-2 rounded bg-zinc-800/50 hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 flex items-center justify-center gap-1.5 text-xs">
+                     <AlignVerticalDistributeCenter size={16} /> Distribute V
+                   </button>
                  </div>
+               )}
+            </div>
+
+            {/* Position & Size */}
+            {frame && (
+            <div className="space-y-2 pt-4 border-t border-zinc-800">
+               <label className="text-xs font-semibold text-zinc-500 uppercase">Position & Size ({UNIT_INFO[unit].suffix})</label>
+               <div className="grid grid-cols-2 gap-2">
+                 <FrameInput label="X" value={toUnit(frame.x)} step={unitStep} onCommit={(v) => handleFrameChange({ x: convertLength(v, unit, 'px') })} />
+                 <FrameInput label="Y" value={toUnit(frame.y)} step={unitStep} onCommit={(v) => handleFrameChange({ y: convertLength(v, unit, 'px') })} />
+                 <FrameInput label="W" value={toUnit(frame.width)} step={unitStep} disabled={isSizeLocked} onCommit={(v) => handleFrameChange({ width: convertLength(v, unit, 'px') })} />
+                 <FrameInput label="H" value={toUnit(frame.height)} step={unitStep} disabled={isSizeLocked} onCommit={(v) => handleFrameChange({ height: convertLength(v, unit, 'px') })} />
+                 <FrameInput label="°" value={Math.round(frame.angle * 10) / 10} step={1} onCommit={(v) => handleFrameChange({ angle: ((v % 360) + 360) % 360 })} />
                </div>
+               {isSizeLocked && (
+                 <p className="text-[11px] text-zinc-600 leading-snug">Size follows the font or code settings above.</p>
+               )}
+               <label className="flex items-center gap-2 text-xs text-zinc-500">
+                 Arrow keys move
+                 <input
+                   type="number"
+                   min="0"
+                   step={unitStep}
+                   value={toUnit(convertLength(nudgeStep, 'mm', 'px'))}
+                   onChange={(e) => onNudgeStepChange(Math.max(0, convertLength(parseFloat(e.target.value) || 0, unit, 'mm')))}
+                   className="w-16 p-1 border border-zinc-700 rounded text-xs bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                 />
+                 {UNIT_INFO[unit].suffix}, Shift x10
+               </label>
             </div>
+            )}
 
           </div>
         )}
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, AlertTriangle, LayoutGrid } from 'lucide-react';
+import { SheetDefinition } from '../types';
+import { validateSheet } from '../services/sheetLayout';
+
+interface SheetEditorModalProps {
+  isOpen: boolean;
+  sheet: SheetDefinition | null; // Starting values; a preset is saved as a new custom sheet
+  onClose: () => void;
+  onSave: (sheet: SheetDefinition) => void;
+}
+
+type NumericField = 'pageWidth' | 'pageHeight' | 'marginTop' | 'marginLeft' | 'labelWidth' | 'labelHeight' | 'pitchX' | 'pitchY' | 'rows' | 'cols';
+
+const EMPTY_SHEET: SheetDefinition = {
+  id: '',
+  name: '',
+  vendor: 'Custom',
+  pageWidth: 210,
+  pageHeight: 297,
+  marginTop: 10,
+  marginLeft: 10,
+  labelWidth: 60,
+  labelHeight: 30,
+  pitchX: 63,
+  pitchY: 30,
+  rows: 9,
+  cols: 3,
+  isCustom: true,
+};
+
+const FIELD_GROUPS: { title: string; fields: { key: NumericField; label: string; step: string }[] }[] = [
+  { title: 'Page (mm)', fields: [
+    { key: 'pageWidth', label: 'Width', step: '0.1' },
+    { key: 'pageHeight', label: 'Height', step: '0.1' },
+  ] },
+  { title: 'Margins (mm)', fields: [
+    { key: 'marginTop', label: 'Top', step: '0.01' },
+    { key: 'marginLeft', label: 'Left', step: '0.01' },
+  ] },
+  { title: 'Label (mm)', fields: [
+    { key: 'labelWidth', label: 'Width', step: '0.01' },
+    { key: 'labelHeight', label: 'Height', step: '0.01' },
+  ] },
+  { title: 'Pitch (mm)', fields: [
+    { key: 'pitchX', label: 'Horizontal', step: '0.01' },
+    { key: 'pitchY', label: 'Vertical', step: '0.01' },
+  ] },
+  { title: 'Layout', fields: [
+    { key: 'rows', label: 'Rows', step: '1' },
+    { key: 'cols', label: 'Columns', step: '1' },
+  ] },
+];
+
+const SheetEditorModal: React.FC<SheetEditorModalProps> = ({ isOpen, sheet, onClose, onSave }) => {
+  const [draft, setDraft] = useState<SheetDefinition>(EMPTY_SHEET);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!sheet) {
+      setDraft(EMPTY_SHEET);
+    } else if (sheet.isCustom) {
+      setDraft(sheet);
+    } else {
+      // Start a custom copy of the preset instead of editing the catalogue
+      setDraft({ ...sheet, id: '', name: `${sheet.name} (copy)`, vendor: 'Custom', isCustom: true });
+    }
+  }, [isOpen, sheet]);
+
+  if (!isOpen) return null;
+
+  const errors = validateSheet(draft);
+
+  const handleNumberChange = (key: NumericField, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: parseFloat(value) }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-[60] flex items-center justify-center backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200 border border-zinc-800">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between bg-zinc-900">
+          <h3 className="font-bold text-zinc-100 flex items-center gap-2">
+            <LayoutGrid className="text-blue-500" size={20} />
+            {draft.id ? 'Edit Label Sheet' : 'New Label Sheet'}
+          </h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-zinc-500 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Warehouse shelf labels"
+                className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-zinc-500 mb-1">Vendor</label>
+              <input
+                type="text"
+                value={draft.vendor}
+                onChange={(e) => setDraft(prev => ({ ...prev, vendor: e.target.value }))}
+                className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+          </div>
+
+          {FIELD_GROUPS.map(group => (
+            <div key={group.title}>
+              <h4 className="text-xs font-semibold text-zinc-400 mb-2">{group.title}</h4>
+              <div className="grid grid-cols-2 gap-3">
+                {group.fields.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs font-medium text-zinc-500 mb-1">{field.label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={field.step}
+                      value={Number.isNaN(draft[field.key]) ? '' : draft[field.key]}
+                      onChange={(e) => handleNumberChange(field.key, e.target.value)}
+                      className="w-full p-2 border border-zinc-700 rounded text-sm bg-zinc-950 text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {errors.length > 0 && (
+            <div className="p-3 rounded text-xs border bg-amber-900/20 border-amber-900/50 text-amber-400">
+              <div className="font-bold flex items-center gap-1.5 mb-1">
+                <AlertTriangle size={12} /> Sheet can't be saved yet
+              </div>
+              <ul className="list-disc pl-4 space-y-0.5 text-amber-300/80">
+                {errors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 bg-zinc-900 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-zinc-400 hover:bg-zinc-800 rounded-lg text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={errors.length > 0}
+            className={`px-4 py-2 text-white rounded-lg text-sm font-medium shadow-sm transition-colors flex items-center gap-2 ${errors.length > 0 ? 'bg-zinc-700 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}`}
+          >
+            <Save size={16} /> Save Sheet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetEditorModal;
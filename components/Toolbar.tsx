@@ -1,29 +1,36 @@
 import React, { useRef, useState } from 'react';
-import { Type, Variable, Barcode, QrCode, Image as ImageIcon, Box, Upload, Database, ChevronDown, ChevronRight, Info, Table, X, Square, Circle, Triangle, Minus } from 'lucide-react';
+import { Type, Variable, Barcode, QrCode, ScanQrCode, Image as ImageIcon, Box, Upload, Database, ChevronDown, ChevronRight, Info, Table, Sigma, X, Square, Circle, Triangle, Minus, TextSelect } from 'lucide-react';
 import { DataField } from '../types';
+import { DATA_FILE_ACCEPT } from '../services/dataImport';
 
 interface ToolbarProps {
   onAddText: () => void;
+  onAddTextFrame: () => void;
   onAddVariable: (key: string) => void;
   onAddBarcode: (key: string) => void;
   onAddQrCode: (key: string) => void;
+  onAddMatrixCode: (key: string) => void;
   onAddImage: (url: string) => void;
   onAddShape: (type: 'rect' | 'circle' | 'triangle' | 'line') => void;
-  onImportCsv: (file: File) => void;
+  onImportData: (file: File) => void;
   onOpenDataEditor: () => void;
+  onOpenComputedFields: () => void;
   availableFields: DataField[];
   onClose?: () => void; // New prop for mobile
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({ 
   onAddText, 
+  onAddTextFrame,
   onAddVariable, 
   onAddBarcode, 
   onAddQrCode,
+  onAddMatrixCode,
   onAddImage,
   onAddShape,
-  onImportCsv,
+  onImportData,
   onOpenDataEditor,
+  onOpenComputedFields,
   availableFields,
   onClose
 }) => {
@@ -34,13 +41,17 @@ const Toolbar: React.FC<ToolbarProps> = ({
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
   const [showHelp, setShowHelp] = useState(false);
 
+  // Computed fields are listed for binding but aren't columns of the data
+  const columnCount = availableFields.filter(field => !field.computed).length;
+  const computedCount = availableFields.length - columnCount;
+
   const toggleSection = (section: string) => {
     setExpandedSection(prev => prev === section ? null : section);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onImportCsv(e.target.files[0]);
+      onImportData(e.target.files[0]);
     }
     if (e.target.value) e.target.value = '';
   };
@@ -88,7 +99,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-3">Data Source</h3>
           <input 
             type="file" 
-            accept=".csv" 
+            accept={DATA_FILE_ACCEPT}
             ref={fileInputRef} 
             className="hidden" 
             onChange={handleFileChange}
@@ -98,19 +109,27 @@ const Toolbar: React.FC<ToolbarProps> = ({
             className="w-full flex items-center gap-3 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-zinc-600 rounded-lg transition-all text-sm font-medium text-zinc-200 shadow-sm"
           >
             <Upload size={18} className="text-blue-400" />
-            Import CSV Data
+            Import Data
           </button>
 
           {/* Manage Data Button - Only shows if data exists */}
-          {availableFields.length > 0 && (
+          {columnCount > 0 && (
              <button
                 onClick={() => wrapAction(onOpenDataEditor)}
                 className="w-full flex items-center justify-center gap-2 mt-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-colors text-xs font-medium text-zinc-300"
              >
                 <Table size={14} />
-                Manage Data ({availableFields.length} Cols)
+                Manage Data ({columnCount} Cols)
              </button>
           )}
+
+          <button
+            onClick={() => wrapAction(onOpenComputedFields)}
+            className="w-full flex items-center justify-center gap-2 mt-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-colors text-xs font-medium text-zinc-300"
+          >
+            <Sigma size={14} />
+            Computed Fields{computedCount > 0 && ` (${computedCount})`}
+          </button>
           
           <div className="mt-3">
              <button 
@@ -119,7 +138,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
              >
                 <div className="flex items-center gap-1.5">
                    <Info size={12} />
-                   <span>CSV Format Info</span>
+                   <span>Data Format Info</span>
                 </div>
                 {showHelp ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
              </button>
@@ -131,16 +150,21 @@ const Toolbar: React.FC<ToolbarProps> = ({
                      <ul className="list-disc pl-3 space-y-1 leading-relaxed">
                         <li>Row 1: <strong>Headers</strong> (e.g. Name, SKU).</li>
                         <li>Headers become data variables.</li>
+                        <li>Type <span className="font-mono">{'{{Header}}'}</span> inside any text to mix static and variable content.</li>
+                        <li>Comma, semicolon or tab delimited; quoted fields may contain delimiters and line breaks.</li>
+                        <li>Excel: pick the sheet and header row when importing.</li>
+                        <li>JSON: an array of objects; keys become variables.</li>
+                        <li>Computed Fields derive new variables from the columns, e.g. an expiry date.</li>
                      </ul>
                   </div>
                </div>
              )}
           </div>
 
-          {availableFields.length > 0 && (
+          {columnCount > 0 && (
             <div className="mt-3 text-xs text-emerald-400 flex items-center gap-1 px-1">
               <Database size={12} />
-              {availableFields.length} fields loaded
+              {columnCount} fields loaded
             </div>
           )}
         </div>
@@ -156,6 +180,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
               <Type size={18} className="text-zinc-400" />
               Add Static Text
             </button>
+            <button
+              onClick={() => wrapAction(onAddTextFrame)}
+              className="w-full flex items-center gap-3 px-4 py-3 bg-zinc-800 hover:bg-zinc-700 rounded-lg transition-colors text-sm font-medium text-zinc-200 shadow-sm"
+            >
+              <TextSelect size={18} className="text-zinc-400" />
+              Add Text Frame
+            </button>
             
             <input 
               type="file" 
@@ -307,9 +338,42 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 )}
              </div>
 
+
+             {/* 2D Code Accordion */}
+             <div>
+                <button 
+                  onClick={() => toggleSection('matrix')}
+                  className={`w-full flex items-center justify-between px-4 py-3 border rounded-lg transition-colors text-sm font-medium ${availableFields.length === 0 ? 'bg-zinc-800/50 border-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-teal-900/20 hover:bg-teal-900/30 border-teal-900/50 text-teal-300'}`}
+                  disabled={availableFields.length === 0}
+                >
+                   <div className="flex items-center gap-3">
+                     <ScanQrCode size={18} />
+                     Add 2D Code
+                   </div>
+                   {availableFields.length > 0 && (
+                     expandedSection === 'matrix' ? <ChevronDown size={14} /> : <ChevronRight size={14} />
+                   )}
+                </button>
+                {expandedSection === 'matrix' && availableFields.length > 0 && (
+                  <div className="mt-1 ml-3 border-l-2 border-zinc-700 pl-2 space-y-1 animate-in slide-in-from-top-1 duration-200">
+                     <p className="px-3 py-1 text-[10px] text-zinc-500">Data Matrix, GS1 DataMatrix, PDF417 or Aztec (pick in Properties)</p>
+                     {availableFields.map(field => (
+                       <button
+                         key={field.value}
+                         onClick={() => wrapAction(() => onAddMatrixCode(field.value))}
+                         className="w-full text-left px-3 py-2 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 rounded transition-colors flex items-center gap-2 group"
+                       >
+                         <span className="w-1.5 h-1.5 rounded-full bg-teal-500 group-hover:bg-teal-400"></span>
+                         <span className="truncate">{field.label}</span>
+                       </button>
+                     ))}
+                  </div>
+                )}
+             </div>
+
           </div>
           {availableFields.length === 0 && (
-            <p className="text-[10px] text-zinc-500 mt-2 text-center">Import CSV to enable bindings</p>
+            <p className="text-[10px] text-zinc-500 mt-2 text-center">Import data to enable bindings</p>
           )}
         </div>
       </div>
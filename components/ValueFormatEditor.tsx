@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { DateInputOrder, ValueFormat, ValueFormatType } from '../types';
+import { DATE_INPUT_ORDERS, DEFAULT_DATE_OUTPUT, VALUE_FORMAT_TYPES, formatValue, isDefaultFormat } from '../services/valueFormat';
+
+interface ValueFormatEditorProps {
+  fieldKey: string;
+  format: ValueFormat;
+  onChange: (format: ValueFormat) => void;
+}
+
+const COMMON_LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'es-ES', 'it-IT', 'nl-NL', 'pl-PL', 'ja-JP'];
+
+const SAMPLES: Record<ValueFormatType, string> = {
+  text: 'abc123',
+  number: '1234.5',
+  currency: '4.5',
+  date: '2025-03-15',
+};
+
+const inputClass = 'w-full min-w-0 p-1.5 text-xs bg-zinc-950 border border-zinc-700 rounded text-zinc-200 outline-none focus:ring-1 focus:ring-blue-500';
+
+interface FieldProps {
+  label: string;
+  children: React.ReactNode;
+}
+
+const Field: React.FC<FieldProps> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className="text-[11px] text-zinc-500">{label}</span>
+    {children}
+  </label>
+);
+
+interface CommitInputProps {
+  value: string;
+  placeholder?: string;
+  type?: 'text' | 'number';
+  min?: number;
+  list?: string;
+  onCommit: (value: string) => void;
+}
+
+// Commits on Enter or blur so typing doesn't record a history step per key
+const CommitInput: React.FC<CommitInputProps> = ({ value, placeholder, type = 'text', min, list, onCommit }) => (
+  <input
+    key={value}
+    type={type}
+    min={min}
+    list={list}
+    defaultValue={value}
+    placeholder={placeholder}
+    onBlur={(e) => { if (e.target.value !== value) onCommit(e.target.value); }}
+    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+    className={inputClass}
+  />
+);
+
+const toCount = (value: string) => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Formatting for one bound field of the selected object: conversion to a
+ * number, currency or date, then padding, case and a prefix or suffix.
+ */
+const ValueFormatEditor: React.FC<ValueFormatEditorProps> = ({ fieldKey, format, onChange }) => {
+  const [isOpen, setIsOpen] = useState(!isDefaultFormat(format));
+  const [sample, setSample] = useState('');
+
+  const update = (changes: Partial<ValueFormat>) => onChange({ ...format, ...changes });
+  const isNumeric = format.type === 'number' || format.type === 'currency';
+  const previewInput = sample || SAMPLES[format.type];
+
+  return (
+    <div className="rounded-md border border-zinc-800 bg-zinc-900/50">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-1.5 px-2 py-1.5 text-xs text-zinc-400 hover:text-zinc-200"
+      >
+        {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <span>Format <span className="font-mono text-zinc-300">{fieldKey}</span></span>
+        {!isDefaultFormat(format) && (
+          <span className="ml-auto text-[10px] text-blue-400">{VALUE_FORMAT_TYPES.find(t => t.value === format.type)?.label}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="p-2 pt-0 space-y-2">
+          <Field label="Type">
+            <select
+              value={format.type}
+              onChange={(e) => update({ type: e.target.value as ValueFormatType })}
+              className={inputClass}
+            >
+              {VALUE_FORMAT_TYPES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </Field>
+
+          {(isNumeric || format.type === 'date') && (
+            <Field label="Locale">
+              <CommitInput value={format.locale || ''} placeholder="Browser default" list="value-format-locales" onCommit={(v) => update({ locale: v.trim() || undefined })} />
+              <datalist id="value-format-locales">
+                {COMMON_LOCALES.map(locale => <option key={locale} value={locale} />)}
+              </datalist>
+            </Field>
+          )}
+
+          {isNumeric && (
+            <div className="grid grid-cols-2 gap-2">
+              {format.type === 'currency' && (
+                <Field label="Currency">
+                  <CommitInput value={format.currency || ''} placeholder="USD" onCommit={(v) => update({ currency: v.trim().toUpperCase() || undefined })} />
+                </Field>
+              )}
+              <Field label="Decimals">
+                <CommitInput
+                  type="number"
+                  min={0}
+                  value={format.decimals !== undefined ? String(format.decimals) : ''}
+                  placeholder="Auto"
+                  onCommit={(v) => {
+                    const decimals = parseInt(v, 10);
+                    update({ decimals: Number.isFinite(decimals) && decimals >= 0 ? Math.min(decimals, 10) : undefined });
+                  }}
+                />
+              </Field>
+              <label className="col-span-2 flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={format.grouping !== false}
+                  onChange={(e) => update({ grouping: e.target.checked ? undefined : false })}
+                  className="accent-blue-500"
+                />
+                Thousands separators
+              </label>
+            </div>
+          )}
+
+          {format.type === 'date' && (
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="Read as">
+                <select
+                  value={format.dateInput || 'auto'}
+                  onChange={(e) => update({ dateInput: e.target.value as DateInputOrder })}
+                  className={inputClass}
+                >
+                  {DATE_INPUT_ORDERS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </Field>
+              <Field label="Print as">
+                <CommitInput value={format.dateOutput || ''} placeholder={DEFAULT_DATE_OUTPUT} onCommit={(v) => update({ dateOutput: v || undefined })} />
+              </Field>
+              <p className="col-span-2 text-[10px] text-zinc-600">YYYY YY MMMM MMM MM M DD D; [text] prints as is</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <Field label="From char">
+              <CommitInput type="number" min={1} value={format.substringStart ? String(format.substringStart) : ''} placeholder="1" onCommit={(v) => update({ substringStart: toCount(v) })} />
+            </Field>
+            <Field label="Length">
+              <CommitInput type="number" min={0} value={format.substringLength ? String(format.substringLength) : ''} placeholder="All" onCommit={(v) => update({ substringLength: toCount(v) })} />
+            </Field>
+            <Field label="Case">
+              <select
+                value={format.case || 'none'}
+                onChange={(e) => update({ case: e.target.value as ValueFormat['case'] })}
+                className={inputClass}
+              >
+                <option value="none">As is</option>
+                <option value="upper">ABC</option>
+                <option value="lower">abc</option>
+              </select>
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <Field label="Pad to">
+              <CommitInput type="number" min={0} value={format.padLength ? String(format.padLength) : ''} placeholder="Off" onCommit={(v) => update({ padLength: toCount(v) })} />
+            </Field>
+            <Field label="With">
+              <CommitInput value={format.padChar || ''} placeholder="0" onCommit={(v) => update({ padChar: [...v][0] || undefined })} />
+            </Field>
+            <Field label="Side">
+              <select
+                value={format.padEnd ? 'end' : 'start'}
+                onChange={(e) => update({ padEnd: e.target.value === 'end' || undefined })}
+                className={inputClass}
+              >
+                <option value="start">Left</option>
+                <option value="end">Right</option>
+              </select>
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Prefix">
+              <CommitInput value={format.prefix || ''} onCommit={(v) => update({ prefix: v || undefined })} />
+            </Field>
+            <Field label="Suffix">
+              <CommitInput value={format.suffix || ''} onCommit={(v) => update({ suffix: v || undefined })} />
+            </Field>
+          </div>
+
+          <div className="pt-2 border-t border-zinc-800 space-y-1">
+            <input
+              type="text"
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              placeholder={`Try a value, e.g. ${SAMPLES[format.type]}`}
+              className={inputClass}
+            />
+            <p className="text-xs font-mono text-zinc-400 truncate" title="Printed result">
+              {previewInput} → <span className="text-emerald-400">{formatValue(previewInput, format)}</span>
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValueFormatEditor;
@@ -1,9 +1,43 @@
-import { DataField } from './types';
+import { DataField, LabelDimensions, LabelGuides } from './types';
 
 export const DPI = 96; // Standard screen DPI for calculation
 
 export const INCH_TO_PX = (inches: number) => inches * DPI;
 export const PX_TO_INCH = (px: number) => px / DPI;
+export const MM_TO_PX = (mm: number) => INCH_TO_PX(mm / 25.4);
+export const PX_TO_MM = (px: number) => PX_TO_INCH(px) * 25.4;
+
+// --- Label Units ---
+
+export type LengthUnit = LabelDimensions['unit'];
+
+export const LENGTH_UNITS: LengthUnit[] = ['inch', 'cm', 'mm', 'px'];
+
+// Inches per unit; px are canvas pixels at DPI
+const INCHES_PER_UNIT: Record<LengthUnit, number> = {
+  inch: 1,
+  cm: 1 / 2.54,
+  mm: 1 / 25.4,
+  px: 1 / DPI,
+};
+
+// Short suffix, input step and decimals kept when converting between units
+export const UNIT_INFO: Record<LengthUnit, { suffix: string; step: number; decimals: number }> = {
+  inch: { suffix: '"', step: 0.1, decimals: 3 },
+  cm: { suffix: 'cm', step: 0.1, decimals: 2 },
+  mm: { suffix: 'mm', step: 0.5, decimals: 2 },
+  px: { suffix: 'px', step: 1, decimals: 0 },
+};
+
+export const isLengthUnit = (value: unknown): value is LengthUnit =>
+  typeof value === 'string' && (LENGTH_UNITS as string[]).includes(value);
+
+export const convertLength = (value: number, from: LengthUnit, to: LengthUnit) =>
+  from === to ? value : value * INCHES_PER_UNIT[from] / INCHES_PER_UNIT[to];
+
+// Converted and rounded to what the unit's inputs show
+export const convertLengthRounded = (value: number, from: LengthUnit, to: LengthUnit) =>
+  parseFloat(convertLength(value, from, to).toFixed(UNIT_INFO[to].decimals));
 
 export const AVAILABLE_FIELDS: DataField[] = [];
 
@@ -23,6 +57,13 @@ export const DEFAULT_LABEL_SIZE = {
   height: 6, // cm
 };
 
+export const DEFAULT_LABEL_GUIDES: LabelGuides = {
+  safeZone: 0,
+  bleed: 0,
+  vertical: [],
+  horizontal: [],
+};
+
 export const COLORS = {
   primary: '#3b82f6',
   secondary: '#64748b',
@@ -0,0 +1,83 @@
+import * as fabric from 'fabric';
+
+// Align and distribute commands. A multi-selection is arranged within its own
+// bounds; a single object is aligned to the label.
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+const moveBy = (obj: fabric.FabricObject, dx: number, dy: number) => {
+  obj.set({ left: obj.left + dx, top: obj.top + dy });
+  obj.setCoords();
+};
+
+/**
+ * Runs `arrange` on the selected objects in canvas coordinates, then selects
+ * them again. Children of an ActiveSelection are positioned relative to it, so
+ * the selection is dissolved first.
+ */
+const withSelection = (canvas: fabric.Canvas, arrange: (objects: fabric.FabricObject[]) => void) => {
+  const active = canvas.getActiveObject();
+  if (!active) return;
+  const objects = active instanceof fabric.ActiveSelection ? active.getObjects() : [active];
+
+  canvas.discardActiveObject();
+  arrange(objects);
+  canvas.setActiveObject(objects.length > 1 ? new fabric.ActiveSelection(objects, { canvas }) : objects[0]);
+  canvas.requestRenderAll();
+};
+
+const getBounds = (rects: fabric.TBBox[]) => {
+  const left = Math.min(...rects.map(r => r.left));
+  const top = Math.min(...rects.map(r => r.top));
+  const right = Math.max(...rects.map(r => r.left + r.width));
+  const bottom = Math.max(...rects.map(r => r.top + r.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+export const alignSelection = (canvas: fabric.Canvas, mode: AlignMode) => {
+  withSelection(canvas, objects => {
+    const rects = objects.map(obj => obj.getBoundingRect());
+    const bounds = objects.length > 1
+      ? getBounds(rects)
+      : { left: 0, top: 0, width: canvas.getWidth() / canvas.getZoom(), height: canvas.getHeight() / canvas.getZoom() };
+
+    objects.forEach((obj, i) => {
+      const r = rects[i];
+      switch (mode) {
+        case 'left': moveBy(obj, bounds.left - r.left, 0); break;
+        case 'center': moveBy(obj, bounds.left + (bounds.width - r.width) / 2 - r.left, 0); break;
+        case 'right': moveBy(obj, bounds.left + bounds.width - r.width - r.left, 0); break;
+        case 'top': moveBy(obj, 0, bounds.top - r.top); break;
+        case 'middle': moveBy(obj, 0, bounds.top + (bounds.height - r.height) / 2 - r.top); break;
+        case 'bottom': moveBy(obj, 0, bounds.top + bounds.height - r.height - r.top); break;
+      }
+    });
+  });
+};
+
+/**
+ * Spaces three or more objects so the gaps between them are equal, keeping
+ * the outermost two where they are.
+ */
+export const distributeSelection = (canvas: fabric.Canvas, axis: DistributeAxis) => {
+  withSelection(canvas, objects => {
+    if (objects.length < 3) return;
+    const horizontal = axis === 'horizontal';
+    const items = objects
+      .map(obj => ({ obj, rect: obj.getBoundingRect() }))
+      .sort((a, b) => horizontal ? a.rect.left - b.rect.left : a.rect.top - b.rect.top);
+
+    const bounds = getBounds(items.map(item => item.rect));
+    const span = horizontal ? bounds.width : bounds.height;
+    const occupied = items.reduce((sum, item) => sum + (horizontal ? item.rect.width : item.rect.height), 0);
+    const gap = (span - occupied) / (items.length - 1);
+
+    let position = horizontal ? bounds.left : bounds.top;
+    items.forEach(({ obj, rect }) => {
+      if (horizontal) moveBy(obj, position - rect.left, 0);
+      else moveBy(obj, 0, position - rect.top);
+      position += (horizontal ? rect.width : rect.height) + gap;
+    });
+  });
+};
@@ -0,0 +1,159 @@
+import { BarcodeFormat, CsvData, LabelObject } from '../types';
+import { MATRIX_CODE_TYPES, getMatrixType, checkMatrixValue } from './matrixCodes';
+import { formatRow } from './valueFormat';
+
+export const DEFAULT_BARCODE_FORMAT: BarcodeFormat = 'CODE128';
+
+interface BarcodeFormatSpec {
+  label: string;
+  hint: string;
+  sample: string; // Valid value shown on the editor canvas when the placeholder can't be encoded
+  prepare: (value: string) => { value: string; error: string | null };
+}
+
+// --- Check Digits ---
+
+/**
+ * GS1 modulo-10 check digit (EAN, UPC, ITF-14): weights alternate 3,1
+ * starting from the rightmost data digit.
+ */
+export const calculateGs1CheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Builds a preparer for fixed-length GS1 numeric codes. A value one digit
+ * short gets its check digit appended; a full-length value has it verified.
+ */
+const gs1Numeric = (name: string, length: number) => (raw: string) => {
+  const value = raw.replace(/\s+/g, '');
+  if (!/^\d+$/.test(value)) {
+    return { value, error: `${name} accepts digits only.` };
+  }
+  if (value.length === length - 1) {
+    return { value: value + calculateGs1CheckDigit(value), error: null };
+  }
+  if (value.length !== length) {
+    return { value, error: `${name} needs ${length - 1} digits (check digit added) or ${length} digits.` };
+  }
+  const expected = calculateGs1CheckDigit(value.slice(0, -1));
+  if (Number(value[length - 1]) !== expected) {
+    return { value, error: `${name} check digit should be ${expected}, found ${value[length - 1]}.` };
+  }
+  return { value, error: null };
+};
+
+const pattern = (name: string, regex: RegExp, message: string, transform = (v: string) => v) => (raw: string) => {
+  const value = transform(raw);
+  if (!value) return { value, error: `${name} value is empty.` };
+  return { value, error: regex.test(value) ? null : message };
+};
+
+export const BARCODE_FORMATS: Record<BarcodeFormat, BarcodeFormatSpec> = {
+  CODE128: {
+    label: 'Code 128',
+    hint: 'Any ASCII text. General purpose.',
+    sample: 'CODE128',
+    prepare: pattern('Code 128', /^[\x00-\x7F]+$/, 'Code 128 accepts ASCII characters only.'),
+  },
+  EAN13: {
+    label: 'EAN-13',
+    hint: '12 digits + check digit. Retail (international).',
+    sample: '5901234123457',
+    prepare: gs1Numeric('EAN-13', 13),
+  },
+  UPC: {
+    label: 'UPC-A',
+    hint: '11 digits + check digit. Retail (North America).',
+    sample: '036000291452',
+    prepare: gs1Numeric('UPC-A', 12),
+  },
+  ITF14: {
+    label: 'ITF-14',
+    hint: '13 digits + check digit. Cartons and outer cases.',
+    sample: '15400141288763',
+    prepare: gs1Numeric('ITF-14', 14),
+  },
+  CODE39: {
+    label: 'Code 39',
+    hint: 'A-Z, 0-9 and - . $ / + % space. Lowercase is uppercased.',
+    sample: 'CODE39',
+    prepare: pattern('Code 39', /^[0-9A-Z\-. $/+%]+$/, 'Code 39 accepts A-Z, 0-9 and - . $ / + % space.', v => v.toUpperCase()),
+  },
+  CODE93: {
+    label: 'Code 93',
+    hint: 'A-Z, 0-9 and - . $ / + % space. Lowercase is uppercased.',
+    sample: 'CODE93',
+    prepare: pattern('Code 93', /^[0-9A-Z\-. $/+%]+$/, 'Code 93 accepts A-Z, 0-9 and - . $ / + % space.', v => v.toUpperCase()),
+  },
+  codabar: {
+    label: 'Codabar',
+    hint: '0-9 and - $ : / . +, optional A-D start/stop.',
+    sample: 'A40156B',
+    prepare: pattern(
+      'Codabar',
+      /^([A-D][0-9\-$:/.+]+[A-D]|[0-9\-$:/.+]+)$/,
+      'Codabar accepts 0-9 and - $ : / . + with optional A-D start/stop characters.',
+      v => v.toUpperCase()
+    ),
+  },
+};
+
+export const getBarcodeFormat = (obj: { barcodeFormat?: BarcodeFormat }): BarcodeFormat =>
+  obj.barcodeFormat && BARCODE_FORMATS[obj.barcodeFormat] ? obj.barcodeFormat : DEFAULT_BARCODE_FORMAT;
+
+/**
+ * Normalizes a raw data value for the symbology (check digit, case) and
+ * reports why it can't be encoded, if it can't.
+ */
+export const prepareBarcodeValue = (format: BarcodeFormat, raw: string) => {
+  return BARCODE_FORMATS[format].prepare(raw ?? '');
+};
+
+// --- Data Validation ---
+
+export interface BarcodeIssue {
+  rowIndex: number;
+  dataKey: string;
+  symbology: string; // Display label, e.g. "EAN-13"
+  value: string;
+  message: string;
+}
+
+/**
+ * Checks every data row against every bound 1D barcode and 2D code in the
+ * template. Each code's value is formatted the way it prints, so a padding or
+ * affix is checked along with the data.
+ */
+export const validateBarcodeData = (objects: LabelObject[], data: CsvData): BarcodeIssue[] => {
+  const codes = objects.filter(obj => (obj.isBarcode || obj.isMatrixCode) && obj.dataKey);
+  const issues: BarcodeIssue[] = [];
+
+  data.rows.forEach((row, rowIndex) => {
+    codes.forEach(obj => {
+      const printed = formatRow(row, obj.valueFormats);
+      const value = Object.hasOwn(printed, obj.dataKey!) ? printed[obj.dataKey!] : '';
+      let symbology: string;
+      let error: string | null;
+      if (obj.isMatrixCode) {
+        const type = getMatrixType(obj);
+        symbology = MATRIX_CODE_TYPES[type].label;
+        error = checkMatrixValue(type, value);
+      } else {
+        const format = getBarcodeFormat(obj);
+        symbology = BARCODE_FORMATS[format].label;
+        error = prepareBarcodeValue(format, value).error;
+      }
+      if (error) {
+        issues.push({ rowIndex, dataKey: obj.dataKey!, symbology, value, message: error });
+      }
+    });
+  });
+
+  return issues;
+};
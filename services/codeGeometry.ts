@@ -0,0 +1,184 @@
+import QRCode from 'qrcode';
+import JsBarcode from 'jsbarcode';
+import { MM_TO_PX } from '../constants';
+import { LabelObject } from '../types';
+import { BARCODE_FORMATS, getBarcodeFormat, prepareBarcodeValue } from './barcodeSymbology';
+import { MATRIX_CODE_TYPES, getMatrixType, encodeMatrixCode } from './matrixCodes';
+import { makePlaceholder } from './placeholders';
+
+// Geometry of 1D barcodes, QR codes and 2D codes as dark module runs, shared
+// by the editor canvas, raster output and vector PDF export.
+
+export type CodeKind = 'barcode' | 'qr' | 'matrix';
+
+type CodeProps = Pick<LabelObject,
+  'isBarcode' | 'isQrCode' | 'isMatrixCode' | 'barcodeFormat' | 'matrixType' | 'dataKey' |
+  'quietZone' | 'codeColumns' | 'codeShape' | 'moduleSize' | 'barHeight' | 'showText'
+>;
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface CodeGeometry {
+  cols: number;
+  rows: number; // 1 for linear barcodes; their height comes from barHeight
+  runs: Rect[]; // Dark runs in module units
+  text?: string; // Human-readable line under linear barcodes
+}
+
+export interface CodeLayout {
+  width: number; // px at DPI, quiet zone included
+  height: number;
+  bars: Rect[]; // px, relative to the top-left corner
+  text?: { value: string; x: number; y: number; fontSize: number }; // x is centre, y is baseline
+}
+
+// Defaults: X-dimension of a 100% EAN-13, and module sizes scanners read comfortably off thermal labels
+const DEFAULT_MODULE_SIZE_MM: Record<CodeKind, number> = { barcode: 0.33, qr: 0.5, matrix: 0.5 };
+const DEFAULT_BAR_HEIGHT_MM = 13;
+const DEFAULT_QUIET_ZONE: Record<'barcode' | 'qr', number> = { barcode: 10, qr: 4 };
+
+export const getCodeKind = (obj: CodeProps): CodeKind | null => {
+  if (obj.isBarcode) return 'barcode';
+  if (obj.isQrCode) return 'qr';
+  if (obj.isMatrixCode) return 'matrix';
+  return null;
+};
+
+export const getModuleSize = (obj: CodeProps) =>
+  obj.moduleSize && obj.moduleSize > 0 ? obj.moduleSize : DEFAULT_MODULE_SIZE_MM[getCodeKind(obj) || 'barcode'];
+
+export const getBarHeight = (obj: CodeProps) =>
+  obj.barHeight && obj.barHeight > 0 ? obj.barHeight : DEFAULT_BAR_HEIGHT_MM;
+
+export const getCodeQuietZone = (obj: CodeProps) => {
+  if (obj.quietZone !== undefined) return obj.quietZone;
+  const kind = getCodeKind(obj);
+  return kind === 'matrix' ? MATRIX_CODE_TYPES[getMatrixType(obj)].quietZone : DEFAULT_QUIET_ZONE[kind || 'barcode'];
+};
+
+// --- Encoding ---
+
+// Merges horizontally adjacent dark modules of each row into one run
+const gridToRuns = (cols: number, rows: number, isDark: (x: number, y: number) => boolean): Rect[] => {
+  const runs: Rect[] = [];
+  for (let y = 0; y < rows; y++) {
+    let x = 0;
+    while (x < cols) {
+      if (!isDark(x, y)) { x++; continue; }
+      const start = x;
+      while (x < cols && isDark(x, y)) x++;
+      runs.push({ x: start, y, w: x - start, h: 1 });
+    }
+  }
+  return runs;
+};
+
+const encodeBarcode = (obj: CodeProps, value: string) => {
+  const format = getBarcodeFormat(obj);
+  const prepared = prepareBarcodeValue(format, value);
+  if (prepared.error) return { geometry: null, error: prepared.error };
+
+  try {
+    // JsBarcode's object renderer returns the bar pattern without drawing anything
+    const target: { encodings?: { data: string; text: string }[] } = {};
+    JsBarcode(target, prepared.value, { format, flat: true });
+    const encodings = target.encodings || [];
+    const pattern = encodings.map(e => e.data).join('');
+    return {
+      geometry: {
+        cols: pattern.length,
+        rows: 1,
+        runs: gridToRuns(pattern.length, 1, x => pattern[x] === '1'),
+        text: encodings.map(e => e.text).join(''),
+      },
+      error: null,
+    };
+  } catch (e) {
+    return { geometry: null, error: `${BARCODE_FORMATS[format].label} could not encode "${prepared.value}".` };
+  }
+};
+
+const encodeQr = (value: string) => {
+  try {
+    const { modules } = QRCode.create(value || ' ', { errorCorrectionLevel: 'M' });
+    const size: number = modules.size;
+    return {
+      geometry: { cols: size, rows: size, runs: gridToRuns(size, size, (x, y) => !!modules.data[y * size + x]) },
+      error: null,
+    };
+  } catch (e) {
+    return { geometry: null, error: 'Value is too long for a QR code.' };
+  }
+};
+
+const encodeMatrix = (obj: CodeProps, value: string) => {
+  const { matrix, error } = encodeMatrixCode(getMatrixType(obj), value, { columns: obj.codeColumns, shape: obj.codeShape });
+  if (!matrix) return { geometry: null, error };
+  return {
+    geometry: { cols: matrix.cols, rows: matrix.rows, runs: gridToRuns(matrix.cols, matrix.rows, (x, y) => !!matrix.modules[y * matrix.cols + x]) },
+    error: null,
+  };
+};
+
+/**
+ * Encodes a value with the object's symbology. Returns the reason instead of a
+ * geometry when the value can't be encoded.
+ */
+export const encodeCode = (obj: CodeProps, value: string): { geometry: CodeGeometry | null; error: string | null } => {
+  switch (getCodeKind(obj)) {
+    case 'barcode': return encodeBarcode(obj, value);
+    case 'qr': return encodeQr(value);
+    case 'matrix': return encodeMatrix(obj, value);
+    default: return { geometry: null, error: 'Not a code object.' };
+  }
+};
+
+/**
+ * Value shown on the editor canvas: the bound placeholder, or a valid sample
+ * when the symbology can't encode placeholder text (numeric codes, GS1).
+ */
+export const getEditorCodeValue = (obj: CodeProps) => {
+  const placeholder = makePlaceholder(obj.dataKey || ' ');
+  if (!encodeCode(obj, placeholder).error) return placeholder;
+  const kind = getCodeKind(obj);
+  if (kind === 'barcode') return BARCODE_FORMATS[getBarcodeFormat(obj)].sample;
+  if (kind === 'matrix') return MATRIX_CODE_TYPES[getMatrixType(obj)].sample;
+  return placeholder;
+};
+
+// --- Layout ---
+
+/**
+ * Converts module geometry to physical size: every module is exactly the
+ * object's module size (X-dimension) wide, whatever the zoom or output.
+ */
+export const layoutCode = (obj: CodeProps, geometry: CodeGeometry): CodeLayout => {
+  const module = MM_TO_PX(getModuleSize(obj));
+  const quiet = getCodeQuietZone(obj) * module;
+  const linear = getCodeKind(obj) === 'barcode';
+  const rowHeight = linear ? MM_TO_PX(getBarHeight(obj)) : module;
+
+  const bars = geometry.runs.map(run => ({
+    x: quiet + run.x * module,
+    y: (linear ? 0 : quiet) + run.y * rowHeight,
+    w: run.w * module,
+    h: run.h * rowHeight,
+  }));
+
+  const width = geometry.cols * module + quiet * 2;
+  let height = linear ? rowHeight : geometry.rows * module + quiet * 2;
+
+  let text: CodeLayout['text'];
+  if (linear && obj.showText !== false && geometry.text) {
+    const fontSize = module * 10;
+    text = { value: geometry.text, x: width / 2, y: height + module * 2 + fontSize * 0.8, fontSize };
+    height += module * 2 + fontSize;
+  }
+
+  return { width, height, bars, text };
+};
@@ -0,0 +1,201 @@
+import * as fabric from 'fabric';
+import QRCode from 'qrcode';
+import { BarcodeFormat, LabelObject, MatrixCodeType } from '../types';
+import { PX_TO_MM } from '../constants';
+import { CodeLayout, encodeCode, getEditorCodeValue, layoutCode } from './codeGeometry';
+import { makePlaceholder } from './placeholders';
+
+// Size of the box drawn when the value can't be encoded
+const ERROR_WIDTH = 160;
+const ERROR_HEIGHT = 56;
+
+/**
+ * Barcode, QR or 2D code drawn as vector modules. The size follows from the
+ * encoded data and the module size in mm, so the object can't be scaled.
+ */
+export class CodeSymbol extends fabric.FabricObject {
+  static type = 'CodeSymbol';
+
+  declare dataKey?: string;
+  declare isBarcode?: boolean;
+  declare isQrCode?: boolean;
+  declare isMatrixCode?: boolean;
+  declare barcodeFormat?: BarcodeFormat;
+  declare matrixType?: MatrixCodeType;
+  declare quietZone?: number;
+  declare codeColumns?: number;
+  declare codeShape?: 'square' | 'rectangle';
+  declare moduleSize?: number;
+  declare barHeight?: number;
+  declare showText?: boolean;
+
+  // Value being rendered. Not serialized: the editor shows the bound placeholder,
+  // label output sets the row value.
+  declare codeValue?: string;
+
+  declare private codeLayout: CodeLayout | null;
+  declare private codeError: string | null;
+
+  static ownDefaults = {
+    fill: '#000000',
+    strokeWidth: 0,
+    objectCaching: false,
+    lockScalingX: true,
+    lockScalingY: true,
+    lockScalingFlip: true,
+  };
+
+  static getDefaults(): Record<string, any> {
+    return { ...super.getDefaults(), ...CodeSymbol.ownDefaults };
+  }
+
+  constructor(options: Record<string, any> = {}) {
+    super(options);
+    // Only rotation; size is set through module size and bar height
+    this.setControlsVisibility({
+      mt: false, mb: false, ml: false, mr: false,
+      bl: false, br: false, tl: false, tr: false,
+      mtr: true,
+    });
+    this.updateCode();
+  }
+
+  /**
+   * Re-encodes after a change to the value, binding or any code setting.
+   */
+  updateCode() {
+    const value = this.codeValue ?? getEditorCodeValue(this);
+    const { geometry, error } = encodeCode(this, value);
+    this.codeLayout = geometry ? layoutCode(this, geometry) : null;
+    this.codeError = geometry ? null : error;
+    this.set({
+      width: this.codeLayout ? this.codeLayout.width : ERROR_WIDTH,
+      height: this.codeLayout ? this.codeLayout.height : ERROR_HEIGHT,
+    });
+    this.setCoords();
+  }
+
+  getCodeLayout() {
+    return this.codeLayout;
+  }
+
+  getCodeError() {
+    return this.codeError;
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const w = this.width;
+    const h = this.height;
+    ctx.save();
+    ctx.translate(-w / 2, -h / 2);
+
+    if (!this.codeLayout) {
+      this.renderError(ctx, w, h);
+    } else {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, w, h);
+      ctx.fillStyle = (this.fill as string) || '#000000';
+      this.fillCrispRects(ctx, this.codeLayout.bars);
+
+      const text = this.codeLayout.text;
+      if (text) {
+        ctx.font = `${text.fontSize}px monospace`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(text.value, text.x, text.y);
+      }
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Fills bars with edges snapped to whole device pixels whenever the object
+   * sits at a multiple of 90°, so bars stay sharp and evenly wide at any zoom
+   * or export resolution instead of being antialiased at fractional edges.
+   */
+  private fillCrispRects(ctx: CanvasRenderingContext2D, rects: CodeLayout['bars']) {
+    const m = ctx.getTransform();
+    const axisAligned = (m.b === 0 && m.c === 0) || (m.a === 0 && m.d === 0);
+    if (!axisAligned) {
+      rects.forEach(r => ctx.fillRect(r.x, r.y, r.w, r.h));
+      return;
+    }
+
+    const toDevice = (x: number, y: number) => ({ x: m.a * x + m.c * y + m.e, y: m.b * x + m.d * y + m.f });
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    rects.forEach(r => {
+      const p1 = toDevice(r.x, r.y);
+      const p2 = toDevice(r.x + r.w, r.y + r.h);
+      const x1 = Math.round(Math.min(p1.x, p2.x));
+      const y1 = Math.round(Math.min(p1.y, p2.y));
+      const x2 = Math.max(x1 + 1, Math.round(Math.max(p1.x, p2.x)));
+      const y2 = Math.max(y1 + 1, Math.round(Math.max(p1.y, p2.y)));
+      ctx.fillRect(x1, y1, x2 - x1, y2 - y1);
+    });
+    ctx.restore();
+  }
+
+  // Drawn in place of a code whose data can't be encoded, so a wrong value never prints as a scannable code
+  private renderError(ctx: CanvasRenderingContext2D, w: number, h: number) {
+    const message = this.codeError || 'Encoding failed';
+    ctx.fillStyle = '#fef2f2';
+    ctx.fillRect(0, 0, w, h);
+    ctx.strokeStyle = '#dc2626';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(1, 1, w - 2, h - 2);
+    ctx.fillStyle = '#dc2626';
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 13px Arial';
+    ctx.fillText('INVALID BARCODE', w / 2, 22);
+    ctx.font = '9px Arial';
+    ctx.fillText(message.length > 40 ? `${message.slice(0, 39)}…` : message, w / 2, 40);
+  }
+}
+
+fabric.classRegistry.setClass(CodeSymbol);
+
+// --- Legacy Templates ---
+
+// Bitmap sizes the old PNG generators used, needed to recover the printed module size
+const LEGACY_BARCODE_MODULE_PX = 4;
+const LEGACY_BARCODE_HEIGHT_PX = 100;
+const LEGACY_BARCODE_MARGIN_PX = 10;
+const LEGACY_QR_WIDTH_PX = 400;
+const LEGACY_MATRIX_MODULE_PX = 10;
+
+const legacyQrModules = (dataKey: string) => {
+  try {
+    return QRCode.create(makePlaceholder(dataKey), { errorCorrectionLevel: 'M' }).modules.size + 2; // margin 1
+  } catch {
+    return 27;
+  }
+};
+
+/**
+ * Converts barcodes, QR codes and 2D codes saved as scaled PNG images into
+ * vector code objects of the same printed size.
+ */
+export const migrateLegacyCodes = (objects: LabelObject[]): LabelObject[] => {
+  return objects.map(obj => {
+    const isLegacyImage = obj.type.toLowerCase() === 'image' && (obj.isBarcode || obj.isQrCode || obj.isMatrixCode);
+    if (!isLegacyImage) return obj;
+
+    const { src, width, height, ...rest } = obj;
+    const scaleX = obj.scaleX || 1;
+    const scaleY = obj.scaleY || 1;
+    const migrated: LabelObject = { ...rest, type: CodeSymbol.type, scaleX: 1, scaleY: 1 };
+
+    if (obj.isBarcode) {
+      migrated.moduleSize = PX_TO_MM(LEGACY_BARCODE_MODULE_PX * scaleX);
+      migrated.barHeight = PX_TO_MM(LEGACY_BARCODE_HEIGHT_PX * scaleY);
+      migrated.quietZone = LEGACY_BARCODE_MARGIN_PX / LEGACY_BARCODE_MODULE_PX; // 2.5 modules
+    } else if (obj.isQrCode) {
+      migrated.moduleSize = PX_TO_MM(LEGACY_QR_WIDTH_PX * scaleX / legacyQrModules(obj.dataKey || ' '));
+      migrated.quietZone = 1;
+    } else {
+      migrated.moduleSize = PX_TO_MM(LEGACY_MATRIX_MODULE_PX * scaleX);
+    }
+    return migrated;
+  });
+};
@@ -0,0 +1,297 @@
+import { CsvData } from '../types';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter | 'auto';
+}
+
+export interface ImportParseResult {
+  data: CsvData;
+  warnings: string[];
+}
+
+export interface CsvParseResult extends ImportParseResult {
+  delimiter: CsvDelimiter;
+}
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+];
+
+// Values must be valid TextDecoder encoding labels
+export const CSV_ENCODINGS: { value: string; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { value: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9)' },
+  { value: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { value: 'windows-1251', label: 'Windows-1251 (Cyrillic)' },
+  { value: 'shift_jis', label: 'Shift_JIS (Japanese)' },
+  { value: 'gb18030', label: 'GB18030 (Chinese)' },
+];
+
+// Cap the warning list so a badly broken file doesn't flood the preview dialog
+const MAX_WARNINGS = 20;
+
+// Number of records sampled when sniffing the delimiter
+const DETECTION_SAMPLE_RECORDS = 20;
+
+// --- Decoding ---
+
+export const readFileAsArrayBuffer = (file: File): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+const sniffBomEncoding = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+/**
+ * Decodes raw file bytes into text. A byte order mark always wins over the
+ * requested encoding. With 'auto', strict UTF-8 is tried first and
+ * Windows-1252 is used as the fallback for legacy Excel exports.
+ */
+export const decodeText = (buffer: ArrayBuffer, encoding: string = 'auto'): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  const bomEncoding = sniffBomEncoding(bytes);
+  let resolved = bomEncoding || encoding;
+
+  if (resolved === 'auto') {
+    try {
+      const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      return { text: stripBom(text), encoding: 'utf-8' };
+    } catch {
+      resolved = 'windows-1252';
+    }
+  }
+
+  const text = new TextDecoder(resolved).decode(bytes);
+  return { text: stripBom(text), encoding: resolved };
+};
+
+const stripBom = (text: string) => text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+// --- Tokenizer ---
+
+interface TokenizeResult {
+  records: string[][];
+  recordLines: number[]; // 1-based physical line each record starts on
+  warnings: string[];
+}
+
+/**
+ * RFC 4180 tokenizer. Handles quoted fields, doubled quotes, embedded
+ * delimiters and newlines, and CRLF / LF / CR line endings. Unquoted fields
+ * are trimmed; quoted fields are kept verbatim.
+ */
+const tokenize = (text: string, delimiter: CsvDelimiter, maxRecords = Infinity): TokenizeResult => {
+  const records: string[][] = [];
+  const recordLines: number[] = [];
+  const warnings: string[] = [];
+
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let wasQuoted = false;
+  let line = 1;
+  let recordStartLine = 1;
+  let quoteStartLine = 1;
+
+  const endField = () => {
+    record.push(wasQuoted ? field : field.trim());
+    field = '';
+    wasQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    recordLines.push(recordStartLine);
+    record = [];
+  };
+
+  let i = 0;
+  while (i < text.length && records.length < maxRecords) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+        i++;
+        continue;
+      }
+      if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      field += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      if (!wasQuoted && field.trim() === '') {
+        // Opening quote (leading whitespace before it is ignored)
+        field = '';
+        inQuotes = true;
+        wasQuoted = true;
+        quoteStartLine = line;
+      } else {
+        warnings.push(`Line ${line}: stray quote character kept as literal text.`);
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+      i++;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      endRecord();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      line++;
+      recordStartLine = line;
+      continue;
+    }
+
+    if (wasQuoted) {
+      if (char.trim() !== '') {
+        warnings.push(`Line ${line}: unexpected text after closing quote.`);
+      }
+      // Whitespace between a closing quote and the delimiter is dropped
+      if (char.trim() === '') {
+        i++;
+        continue;
+      }
+    }
+
+    field += char;
+    i++;
+  }
+
+  if (inQuotes) {
+    warnings.push(`Line ${quoteStartLine}: quoted field is never closed; the rest of the file was read into it.`);
+  }
+
+  // Flush the final record unless the file ended with a newline
+  if (records.length < maxRecords && (field !== '' || wasQuoted || record.length > 0)) {
+    endRecord();
+  }
+
+  return { records, recordLines, warnings };
+};
+
+const isBlankRecord = (record: string[]) => record.every(value => value === '');
+
+// --- Delimiter Detection ---
+
+/**
+ * Picks the candidate delimiter that yields the most columns consistently
+ * across a sample of records.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const { records } = tokenize(text, value, DETECTION_SAMPLE_RECORDS);
+    const sample = records.filter(r => !isBlankRecord(r));
+    if (sample.length === 0) return;
+
+    const columnCount = sample[0].length;
+    if (columnCount < 2) return;
+
+    const consistent = sample.filter(r => r.length === columnCount).length / sample.length;
+    const score = columnCount * consistent;
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+// --- Parsing ---
+
+/**
+ * Fills in blank headers and de-duplicates repeated ones so every column
+ * can be addressed as a unique data key. Shared by all import sources.
+ */
+export const normalizeHeaders = (raw: string[], warnings: string[]): string[] => {
+  const seen = new Map<string, number>();
+
+  return raw.map((value, index) => {
+    let header = value.trim();
+    if (!header) {
+      header = `Column ${index + 1}`;
+      warnings.push(`Column ${index + 1} has no header; named it "${header}".`);
+    }
+
+    const count = seen.get(header) || 0;
+    seen.set(header, count + 1);
+    if (count > 0) {
+      const renamed = `${header} (${count + 1})`;
+      warnings.push(`Duplicate header "${header}" renamed to "${renamed}".`);
+      header = renamed;
+    }
+    return header;
+  });
+};
+
+export const parseCsv = (text: string, options: CsvParseOptions = {}): CsvParseResult => {
+  const source = stripBom(text);
+  const delimiter = !options.delimiter || options.delimiter === 'auto'
+    ? detectDelimiter(source)
+    : options.delimiter;
+
+  const { records, recordLines, warnings: tokenWarnings } = tokenize(source, delimiter);
+  const warnings: string[] = [...tokenWarnings];
+
+  const nonBlank = records
+    .map((record, index) => ({ record, line: recordLines[index] }))
+    .filter(({ record }) => !isBlankRecord(record));
+
+  if (nonBlank.length === 0) {
+    return { data: { headers: [], rows: [] }, delimiter, warnings: ['File contains no data.'] };
+  }
+
+  const headers = normalizeHeaders(nonBlank[0].record, warnings);
+
+  const rows = nonBlank.slice(1).map(({ record, line }) => {
+    if (record.length !== headers.length) {
+      const detail = record.length > headers.length ? 'extra values were dropped' : 'missing values left empty';
+      warnings.push(`Line ${line}: expected ${headers.length} fields but found ${record.length}; ${detail}.`);
+    }
+    // Built from entries so a "__proto__" header is a column, not the prototype
+    return Object.fromEntries(headers.map((header, index) => [header, record[index] ?? '']));
+  });
+
+  return { data: { headers, rows }, delimiter, warnings: limitWarnings(warnings) };
+};
+
+export const limitWarnings = (warnings: string[]) => {
+  if (warnings.length <= MAX_WARNINGS) return warnings;
+  return [
+    ...warnings.slice(0, MAX_WARNINGS),
+    `...and ${warnings.length - MAX_WARNINGS} more warnings.`
+  ];
+};
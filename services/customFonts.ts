@@ -0,0 +1,188 @@
+import * as fabric from 'fabric';
+import { CustomFont } from '../types';
+
+// Uploaded font files: reading them into sfnt form, and registering them with
+// the browser so the editor and raster exports draw with them. PDF embedding
+// lives in pdfVectorExport, which looks the files up here by family.
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff';
+
+const registered = new Map<string, { font: CustomFont; face: FontFace }>();
+
+// --- Encoding ---
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large files don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const inflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// --- Parsing ---
+
+/**
+ * Rebuilds the sfnt (TTF/OTF) file packed in a WOFF 1.0 file. Tables are
+ * zlib-compressed individually; a table stored at its original length is raw.
+ */
+const unpackWoff = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flavor = view.getUint32(4);
+  const numTables = view.getUint16(12);
+
+  const tables: { tag: number; checksum: number; data: Uint8Array }[] = [];
+  for (let i = 0; i < numTables; i++) {
+    const entry = 44 + i * 20;
+    const offset = view.getUint32(entry + 4);
+    const compLength = view.getUint32(entry + 8);
+    const origLength = view.getUint32(entry + 12);
+    const stored = bytes.subarray(offset, offset + compLength);
+    const data = compLength < origLength ? await inflate(stored) : stored;
+    if (data.length !== origLength) throw new Error('Damaged WOFF table');
+    tables.push({ tag: view.getUint32(entry), checksum: view.getUint32(entry + 16), data });
+  }
+
+  const headerSize = 12 + numTables * 16;
+  const size = tables.reduce((total, t) => total + ((t.data.length + 3) & ~3), headerSize);
+  const out = new Uint8Array(size);
+  const outView = new DataView(out.buffer);
+  const log2 = Math.floor(Math.log2(numTables));
+  outView.setUint32(0, flavor);
+  outView.setUint16(4, numTables);
+  outView.setUint16(6, 2 ** log2 * 16);
+  outView.setUint16(8, log2);
+  outView.setUint16(10, numTables * 16 - 2 ** log2 * 16);
+
+  let position = headerSize;
+  tables.forEach((table, i) => {
+    const record = 12 + i * 16;
+    outView.setUint32(record, table.tag);
+    outView.setUint32(record + 4, table.checksum);
+    outView.setUint32(record + 8, position);
+    outView.setUint32(record + 12, table.data.length);
+    out.set(table.data, position);
+    position += (table.data.length + 3) & ~3; // Tables start on 4-byte boundaries
+  });
+  return out;
+};
+
+/**
+ * Full font name (name ID 4, falling back to the family, ID 1) from an sfnt
+ * file's name table, or null when there is none.
+ */
+const readFontName = (bytes: Uint8Array): string | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const numTables = view.getUint16(4);
+  let nameTable = -1;
+  for (let i = 0; i < numTables; i++) {
+    if (readTag(view, 12 + i * 16) === 'name') nameTable = view.getUint32(12 + i * 16 + 8);
+  }
+  if (nameTable < 0) return null;
+
+  const count = view.getUint16(nameTable + 2);
+  const strings = nameTable + view.getUint16(nameTable + 4);
+  const names = new Map<number, string>();
+  for (let i = 0; i < count; i++) {
+    const record = nameTable + 6 + i * 12;
+    const platform = view.getUint16(record);
+    const nameId = view.getUint16(record + 6);
+    const length = view.getUint16(record + 8);
+    const start = strings + view.getUint16(record + 10);
+    if ((nameId !== 1 && nameId !== 4) || names.has(nameId)) continue;
+    if (platform === 3 || platform === 0) {
+      // Windows and Unicode entries are UTF-16BE
+      let text = '';
+      for (let j = 0; j + 1 < length; j += 2) text += String.fromCharCode(view.getUint16(start + j));
+      names.set(nameId, text);
+    } else if (platform === 1) {
+      names.set(nameId, String.fromCharCode(...bytes.subarray(start, start + length)));
+    }
+  }
+  return names.get(4) || names.get(1) || null;
+};
+
+// Quotes and commas would break the CSS font declarations fabric builds
+const cleanFamily = (name: string) => name.replace(/["',]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Reads an uploaded TTF, OTF or WOFF file. WOFF files are unpacked so every
+ * stored font is a plain sfnt file that jsPDF can read.
+ */
+export const readFontFile = async (file: File): Promise<CustomFont> => {
+  let bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes.length < 12) throw new Error(`"${file.name}" is not a font file.`);
+
+  const signature = readTag(new DataView(bytes.buffer), 0);
+  if (signature === 'wOF2') throw new Error('WOFF2 fonts are not supported. Please upload the TTF, OTF or WOFF version.');
+  if (signature === 'wOFF') bytes = await unpackWoff(bytes);
+
+  const flavor = readTag(new DataView(bytes.buffer), 0);
+  const isTrueType = flavor === '\0\x01\0\0' || flavor === 'true';
+  if (!isTrueType && flavor !== 'OTTO') throw new Error(`"${file.name}" is not a TTF, OTF or WOFF font.`);
+
+  const family = cleanFamily(readFontName(bytes) || file.name.replace(/\.[^.]+$/, ''));
+  if (!family) throw new Error(`"${file.name}" has no usable font name.`);
+
+  return {
+    id: '',
+    family,
+    fileName: file.name,
+    format: isTrueType ? 'truetype' : 'opentype',
+    data: toBase64(bytes),
+  };
+};
+
+// --- Registration ---
+
+/**
+ * Loads a font into the document under its family name and drops fabric's
+ * cached glyph widths for it, so text measured with a fallback font is
+ * measured again.
+ */
+export const registerCustomFont = async (font: CustomFont) => {
+  const face = new FontFace(font.family, fromBase64(font.data));
+  try {
+    await face.load();
+  } catch (e) {
+    console.error(e);
+    throw new Error(`The browser could not load "${font.fileName}". The file may be damaged.`);
+  }
+  unregisterCustomFont(font.family);
+  document.fonts.add(face);
+  registered.set(font.family, { font, face });
+  fabric.cache.clearFontCache(font.family);
+};
+
+export const unregisterCustomFont = (family: string) => {
+  const entry = registered.get(family);
+  if (!entry) return;
+  document.fonts.delete(entry.face);
+  registered.delete(family);
+  fabric.cache.clearFontCache(family);
+};
+
+/**
+ * Registers every stored font. A broken file is logged and skipped so the
+ * others still load.
+ */
+export const registerCustomFonts = async (fonts: CustomFont[]) => {
+  await Promise.all(fonts.map(font => registerCustomFont(font).catch(e => {
+    console.error(`Failed to load font "${font.family}"`, e);
+  })));
+};
+
+export const getCustomFont = (family: string): CustomFont | undefined => registered.get(family)?.font;
+
+// jsPDF embeds TrueType outlines only; CFF-based OpenType fonts can't be embedded
+export const canEmbedInPdf = (font: CustomFont) => font.format === 'truetype';
@@ -0,0 +1,146 @@
+import * as XLSX from 'xlsx';
+import { ImportParseResult, normalizeHeaders, limitWarnings } from './csvParser';
+
+export type ImportSourceKind = 'csv' | 'xlsx' | 'json';
+
+// File picker filter for every supported data source
+export const DATA_FILE_ACCEPT = '.csv,.tsv,.txt,.xlsx,.xls,.ods,.json';
+
+export const detectImportKind = (file: File): ImportSourceKind => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  if (['xlsx', 'xls', 'xlsm', 'ods'].includes(ext)) return 'xlsx';
+  if (ext === 'json') return 'json';
+  return 'csv';
+};
+
+// --- Spreadsheets ---
+
+export const readWorkbook = (buffer: ArrayBuffer): XLSX.WorkBook => {
+  return XLSX.read(new Uint8Array(buffer), { type: 'array' });
+};
+
+/**
+ * Converts one worksheet into CsvData. `headerRow` is the 1-based spreadsheet
+ * row holding the column names; rows above it are ignored. Cells are read as
+ * their formatted text so dates and currency look the way they do in Excel.
+ */
+export const parseSheet = (workbook: XLSX.WorkBook, sheetName: string, headerRow: number = 1): ImportParseResult => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet || !sheet['!ref']) {
+    return { data: { headers: [], rows: [] }, warnings: [`Sheet "${sheetName}" is empty.`] };
+  }
+
+  // Anchor the range at A1 so row numbers match what the user sees in Excel
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  range.s.r = 0;
+  range.s.c = 0;
+
+  const grid = XLSX.utils.sheet_to_json<string[]>(sheet, {
+    header: 1,
+    range,
+    raw: false,
+    defval: '',
+    blankrows: true
+  });
+
+  const headerIndex = headerRow - 1;
+  if (headerIndex < 0 || headerIndex >= grid.length) {
+    return { data: { headers: [], rows: [] }, warnings: [`Row ${headerRow} is outside the sheet (${grid.length} rows).`] };
+  }
+
+  const warnings: string[] = [];
+  const rawHeaders = grid[headerIndex].map(v => String(v ?? '').trim());
+
+  // Drop trailing unnamed columns that only exist because of stray formatting
+  let width = rawHeaders.length;
+  while (width > 0 && rawHeaders[width - 1] === '') width--;
+  const headers = normalizeHeaders(rawHeaders.slice(0, width), warnings);
+
+  const rows = grid.slice(headerIndex + 1)
+    .map((cells, offset) => ({ cells: cells.map(v => String(v ?? '').trim()), rowNumber: headerRow + offset + 1 }))
+    .filter(({ cells }) => cells.some(v => v !== ''))
+    .map(({ cells, rowNumber }) => {
+      if (cells.slice(width).some(v => v !== '')) {
+        warnings.push(`Row ${rowNumber}: values beyond the last named column were dropped.`);
+      }
+      return Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']));
+    });
+
+  return { data: { headers, rows }, warnings: limitWarnings(warnings) };
+};
+
+// --- JSON ---
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Flattens nested objects into dot-separated keys, e.g. { dim: { w: 2 } }
+ * becomes { 'dim.w': '2' }. Arrays are kept as JSON text. The result has no
+ * prototype, so keys like "__proto__" or "constructor" stay plain keys.
+ */
+const flattenRecord = (record: Record<string, unknown>, prefix = '', out: Record<string, string> = Object.create(null)) => {
+  Object.entries(record).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flattenRecord(value, path, out);
+    } else if (Array.isArray(value)) {
+      out[path] = JSON.stringify(value);
+    } else if (value === null || value === undefined) {
+      out[path] = '';
+    } else {
+      out[path] = String(value);
+    }
+  });
+  return out;
+};
+
+// Accepts a bare array, or an API envelope like { data: [...] } / { items: [...] }
+const findRecordArray = (json: unknown): { records: unknown[]; path: string } | null => {
+  if (Array.isArray(json)) return { records: json, path: '' };
+  if (isPlainObject(json)) {
+    for (const [key, value] of Object.entries(json)) {
+      if (Array.isArray(value) && value.some(isPlainObject)) {
+        return { records: value, path: key };
+      }
+    }
+  }
+  return null;
+};
+
+export const parseJsonRecords = (text: string): ImportParseResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return { data: { headers: [], rows: [] }, warnings: [`Invalid JSON: ${(e as Error).message}`] };
+  }
+
+  const found = findRecordArray(json);
+  if (!found) {
+    return { data: { headers: [], rows: [] }, warnings: ['Expected an array of objects.'] };
+  }
+
+  const warnings: string[] = [];
+  if (found.path) {
+    warnings.push(`Using the "${found.path}" array from the top-level object.`);
+  }
+
+  const flattened: Record<string, string>[] = [];
+  found.records.forEach((record, index) => {
+    if (!isPlainObject(record)) {
+      warnings.push(`Item ${index + 1} is not an object and was skipped.`);
+      return;
+    }
+    flattened.push(flattenRecord(record));
+  });
+
+  // Union of keys in order of first appearance
+  const headerSet = new Set<string>();
+  flattened.forEach(record => Object.keys(record).forEach(key => headerSet.add(key)));
+  const headers = [...headerSet];
+
+  const rows = flattened.map(record => Object.fromEntries(headers.map(header => [header, record[header] ?? ''])));
+
+  return { data: { headers, rows }, warnings: limitWarnings(warnings) };
+};
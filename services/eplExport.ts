@@ -0,0 +1,168 @@
+import { LabelTemplate } from '../types';
+import { createLabelCanvas } from './fabricHelper';
+import { PrintRun } from './printJob';
+import {
+  PrinterDpi, ThermalElement, ThermalLabel, TextElement, BarcodeElement,
+  layoutThermalLabel, mmToDots, offsetRotated, toBitmapElement,
+} from './thermalLayout';
+
+// EPL2 output for Eltron/Zebra desktop printers. Like TSPL, graphics (GW)
+// carry raw bytes, so labels are assembled as chunks and returned as a Blob.
+
+type Chunk = string | Uint8Array;
+
+const LF = '\n';
+
+const quote = (value: string) => `"${value.replace(/[\\"]/g, c => `\\${c}`)}"`;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// EPL rotations are 0-3, clockwise in 90° steps
+const ROTATION = { 0: 0, 90: 1, 180: 2, 270: 3 } as const;
+
+const BARCODE_TYPES: Record<BarcodeElement['format'], string> = {
+  CODE128: '1',
+  EAN13: 'E30',
+  UPC: 'UA0',
+  ITF14: '2',
+  CODE39: '3',
+  CODE93: '9',
+  codabar: 'K',
+};
+
+// Resident bitmap fonts: character cell size in dots, including spacing
+const FONTS: Record<203 | 300, { font: number; width: number; height: number }[]> = {
+  203: [
+    { font: 1, width: 10, height: 12 },
+    { font: 2, width: 12, height: 16 },
+    { font: 3, width: 14, height: 20 },
+    { font: 4, width: 16, height: 24 },
+    { font: 5, width: 34, height: 48 },
+  ],
+  300: [
+    { font: 1, width: 14, height: 20 },
+    { font: 2, width: 18, height: 28 },
+    { font: 3, width: 22, height: 36 },
+    { font: 4, width: 26, height: 44 },
+    { font: 5, width: 50, height: 80 },
+  ],
+};
+
+/**
+ * Closest resident font and integer multipliers for a text height, keeping
+ * the width-to-height ratio of the template font.
+ */
+const pickFont = (el: TextElement, dpi: PrinterDpi) => {
+  // EPL printers stop at 300 dpi; at 600 the 300 dpi cells are doubled
+  const fonts = dpi === 203 ? FONTS[203] : FONTS[300].map(f => dpi === 600 ? { ...f, width: f.width * 2, height: f.height * 2 } : f);
+  let best = { ...fonts[0], vertical: 1, error: Infinity };
+  fonts.forEach(f => {
+    const vertical = clamp(Math.round(el.fontHeight / f.height), 1, 9);
+    const error = Math.abs(f.height * vertical - el.fontHeight);
+    // On a tie the larger font scales less and looks cleaner
+    if (error < best.error || (error === best.error && vertical < best.vertical)) best = { ...f, vertical, error };
+  });
+  const horizontal = clamp(Math.round(best.vertical * el.fontWidth / el.fontHeight), 1, 6);
+  return { font: best.font, cellWidth: best.width * horizontal, horizontal, vertical: best.vertical };
+};
+
+// --- Commands ---
+
+const writeText = (el: TextElement, dpi: PrinterDpi): string => {
+  const { font, cellWidth, horizontal, vertical } = pickFont(el, dpi);
+  const reverse = el.reverse ? 'R' : 'N';
+  return el.lines.map((line, i) => {
+    // Fixed-pitch fonts: alignment is worked out from the character count
+    const slack = Math.max(0, el.blockWidth - line.length * cellWidth);
+    const along = el.align === 'center' ? slack / 2 : el.align === 'right' ? slack : 0;
+    const { x, y } = offsetRotated(el.origin, el.rotation, along, i * el.linePitch);
+    return `A${x},${y},${ROTATION[el.rotation]},${font},${horizontal},${vertical},${reverse},${quote(line)}`;
+  }).join(LF);
+};
+
+const writeBarcode = (el: BarcodeElement) => {
+  const { x, y } = el.origin;
+  const ratio = el.format === 'CODE128' || el.format === 'EAN13' || el.format === 'UPC' || el.format === 'CODE93' ? 1 : 3;
+  // The printer adds check digits for these
+  const data = el.format === 'EAN13' ? el.value.slice(0, 12)
+    : el.format === 'UPC' ? el.value.slice(0, 11)
+    : el.value;
+  const readable = el.showText ? 'B' : 'N';
+  return `B${x},${y},${ROTATION[el.rotation]},${BARCODE_TYPES[el.format]},${el.module},${el.module * ratio},${el.height},${readable},${quote(data)}`;
+};
+
+/**
+ * EPL for one element, or null when it has to be sent as a bitmap.
+ * QR and other 2D codes aren't supported by every EPL firmware, so they
+ * always go as graphics.
+ */
+const writeNative = (el: ThermalElement, dpi: PrinterDpi): Chunk[] | null => {
+  switch (el.kind) {
+    case 'text':
+      return [writeText(el, dpi)];
+    case 'barcode':
+      return [writeBarcode(el)];
+    case 'box': {
+      const { x, y, width, height } = el.bounds;
+      const filled = el.thickness >= Math.min(width, height);
+      // LO draws black, LW white
+      if (filled) return [`${el.color === 'black' ? 'LO' : 'LW'}${x},${y},${width},${height}`];
+      if (el.color !== 'black' || el.radius > 0) return null;
+      return [`X${x},${y},${el.thickness},${x + width},${y + height}`];
+    }
+    case 'bitmap': {
+      const { bitmap } = el;
+      // GW prints 0 bits
+      const data = bitmap.data.map(byte => ~byte & 0xff);
+      return [`GW${Math.max(0, bitmap.x)},${Math.max(0, bitmap.y)},${bitmap.bytesPerRow},${bitmap.height},`, data];
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Commands for one laid-out label, printed `quantity` times.
+ */
+export const writeEplLabel = (label: ThermalLabel, dpi: PrinterDpi, gapDots: number, quantity: number = 1): Chunk[] => {
+  // Leading LF ends any command left open by a previous job
+  const chunks: Chunk[] = [LF, `N${LF}`, `q${label.width}${LF}`, `Q${label.height},${gapDots}${LF}`];
+  label.elements.forEach(el => {
+    let native = writeNative(el, dpi);
+    if (!native) {
+      const bitmap = toBitmapElement(el, dpi);
+      native = bitmap ? writeNative(bitmap, dpi) : null;
+    }
+    if (native) chunks.push(...native, LF);
+  });
+  chunks.push(`P${quantity}${LF}`);
+  return chunks;
+};
+
+// EPL has no UTF-8 mode; the default code page covers Latin-1
+const encodeLatin1 = (text: string) =>
+  Uint8Array.from(Array.from(text, c => {
+    const code = c.codePointAt(0)!;
+    return code < 256 ? code : 0x3f; // '?'
+  }));
+
+/**
+ * EPL for a whole print job, one label per run of identical labels.
+ */
+export const generateEpl = async (
+  template: LabelTemplate,
+  dataRows: (Record<string, string> | null)[],
+  runs: PrintRun[],
+  dpi: PrinterDpi,
+  gapMm: number
+): Promise<Blob> => {
+  const parts: Uint8Array[] = [];
+  for (const run of runs) {
+    const canvas = await createLabelCanvas(template, dataRows[run.rowIndex] ?? null);
+    writeEplLabel(layoutThermalLabel(canvas, dpi), dpi, mmToDots(gapMm, dpi), run.count).forEach(chunk => {
+      parts.push(typeof chunk === 'string' ? encodeLatin1(chunk) : chunk);
+    });
+    canvas.dispose();
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+};
@@ -0,0 +1,591 @@
+import { ComputedField, DateInputOrder } from '../types';
+import { calculateGs1CheckDigit } from './barcodeSymbology';
+import { DATE_INPUT_ORDERS, formatDate, parseDate, parseNumber } from './valueFormat';
+
+// Expressions for computed fields, e.g. adddays(date([Mfg Date]), 180) or
+// if([Category] = 'Glass', 'FRAGILE', ''). Expressions are parsed into a tree
+// and evaluated here; nothing is ever run as JavaScript.
+//
+// Columns are written as bare names (sku) or in brackets ([Lot No]). Text is
+// quoted with ' or ", a doubled quote inside is a literal one. Operators, from
+// loosest to tightest: or, and, not, comparisons (= != <> < <= > >=), & (join
+// text), + -, * / %. Text comparisons ignore case.
+
+type Value = string | number | boolean | Date;
+
+type Node =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'field' | 'op' | 'end';
+  value: string;
+  position: number; // 1-based, for error messages
+}
+
+export const COMPUTED_ERROR_VALUE = '#ERROR';
+
+const DAY_MS = 86400000;
+
+// --- Tokenizer ---
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '&&', '||', '+', '-', '*', '/', '%', '&', '=', '<', '>', '!', '(', ')', ','];
+const NAME_START = /[\p{L}_]/u;
+const NAME_CHAR = /[\p{L}\p{N}_]/u;
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    const position = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(expression[i + 1] || ''))) {
+      const match = expression.slice(i).match(/^\d*\.?\d+|^\d+/)!;
+      tokens.push({ type: 'number', value: match[0], position });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= expression.length) throw new Error(`Text starting at position ${position} has no closing ${char}`);
+        if (expression[i] === char) {
+          if (expression[i + 1] !== char) break;
+          i++; // Doubled quote
+        }
+        value += expression[i++];
+      }
+      i++;
+      tokens.push({ type: 'string', value, position });
+    } else if (char === '[') {
+      const end = expression.indexOf(']', i);
+      if (end < 0) throw new Error(`Column name at position ${position} has no closing ]`);
+      tokens.push({ type: 'field', value: expression.slice(i + 1, end).trim(), position });
+      i = end + 1;
+    } else if (NAME_START.test(char)) {
+      let name = '';
+      while (i < expression.length && NAME_CHAR.test(expression[i])) name += expression[i++];
+      tokens.push({ type: 'name', value: name, position });
+    } else {
+      const op = OPERATORS.find(candidate => expression.startsWith(candidate, i));
+      if (!op) throw new Error(`Unexpected "${char}" at position ${position}`);
+      tokens.push({ type: 'op', value: op, position });
+      i += op.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: expression.length + 1 });
+  return tokens;
+};
+
+// --- Values ---
+
+const isBlank = (value: Value) => typeof value === 'string' && value.trim() === '';
+
+// Only plain numerals count, so "2025-03-15" or "15/03/2025" stay dates
+const readNumeral = (value: string): number | null =>
+  /^[-+]?[\d.,]*\d[\d.,]*$/.test(value.trim()) ? parseNumber(value) : null;
+
+const asNumber = (value: Value): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') return readNumeral(value);
+  return null;
+};
+
+const toText = (value: Value): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) return formatDate(value, 'YYYY-MM-DD');
+  if (!Number.isFinite(value)) throw new Error('Result is not a number');
+  // Hides floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return Number.isInteger(value) ? String(value) : String(parseFloat(value.toFixed(10)));
+};
+
+// Blank counts as zero, as in a spreadsheet
+const toNumber = (value: Value): number => {
+  if (isBlank(value)) return 0;
+  const number = asNumber(value);
+  if (number === null) throw new Error(`"${toText(value)}" is not a number`);
+  return number;
+};
+
+const toDate = (value: Value): Date => {
+  if (value instanceof Date) return value;
+  const date = typeof value === 'string' ? parseDate(value) : null;
+  if (!date) throw new Error(`"${toText(value)}" is not a date`);
+  return date;
+};
+
+const toBoolean = (value: Value): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (value instanceof Date) return true;
+  return !['', '0', 'false'].includes(value.trim().toLowerCase());
+};
+
+// A number or date for + and -; text that is neither asks for & instead
+const toOperand = (value: Value): number | Date => {
+  if (value instanceof Date) return value;
+  if (isBlank(value)) return 0;
+  const number = asNumber(value);
+  if (number !== null) return number;
+  const date = typeof value === 'string' ? parseDate(value) : null;
+  if (date) return date;
+  throw new Error(`"${toText(value)}" is not a number or date (use & to join text)`);
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + Math.round(days) * DAY_MS);
+
+// Jan 31 plus one month is the last day of February rather than March 3
+const addMonths = (date: Date, months: number) => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + Math.round(months), 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+};
+
+const compare = (left: Value, right: Value): number => {
+  const a = isBlank(left) ? null : asNumber(left);
+  const b = isBlank(right) ? null : asNumber(right);
+  if (a !== null && b !== null) return a - b;
+  if (left instanceof Date || right instanceof Date) return toDate(left).getTime() - toDate(right).getTime();
+  const x = toText(left).toLocaleLowerCase();
+  const y = toText(right).toLocaleLowerCase();
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+// --- Functions ---
+
+interface ExpressionFunction {
+  group: 'Text' | 'Numbers' | 'Dates' | 'Logic';
+  syntax: string;
+  description: string;
+  min: number;
+  max: number;
+  run: (args: Value[]) => Value;
+}
+
+const pad = (args: Value[], atEnd: boolean, defaultChar: string) => {
+  const text = toText(args[0]);
+  const char = args[2] !== undefined ? toText(args[2]) || defaultChar : defaultChar;
+  const length = toNumber(args[1]);
+  return atEnd ? text.padEnd(length, char) : text.padStart(length, char);
+};
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  upper: { group: 'Text', syntax: 'upper(text)', description: 'Text in capitals', min: 1, max: 1, run: ([v]) => toText(v).toLocaleUpperCase() },
+  lower: { group: 'Text', syntax: 'lower(text)', description: 'Text in small letters', min: 1, max: 1, run: ([v]) => toText(v).toLocaleLowerCase() },
+  trim: { group: 'Text', syntax: 'trim(text)', description: 'Removes spaces at either end', min: 1, max: 1, run: ([v]) => toText(v).trim() },
+  len: { group: 'Text', syntax: 'len(text)', description: 'Number of characters', min: 1, max: 1, run: ([v]) => Array.from(toText(v)).length },
+  left: {
+    group: 'Text', syntax: 'left(text, count)', description: 'First characters', min: 2, max: 2,
+    run: ([v, n]) => Array.from(toText(v)).slice(0, Math.max(0, toNumber(n))).join(''),
+  },
+  right: {
+    group: 'Text', syntax: 'right(text, count)', description: 'Last characters', min: 2, max: 2,
+    run: ([v, n]) => {
+      const count = Math.max(0, toNumber(n));
+      return count === 0 ? '' : Array.from(toText(v)).slice(-count).join('');
+    },
+  },
+  mid: {
+    group: 'Text', syntax: 'mid(text, start, [count])', description: 'Characters from a position, counting from 1', min: 2, max: 3,
+    run: ([v, start, count]) => {
+      const from = Math.max(0, toNumber(start) - 1);
+      return Array.from(toText(v)).slice(from, count !== undefined ? from + Math.max(0, toNumber(count)) : undefined).join('');
+    },
+  },
+  replace: {
+    group: 'Text', syntax: 'replace(text, find, with)', description: 'Replaces every occurrence', min: 3, max: 3,
+    run: ([v, find, replacement]) => toText(find) ? toText(v).split(toText(find)).join(toText(replacement)) : toText(v),
+  },
+  concat: { group: 'Text', syntax: 'concat(a, b, ...)', description: 'Joins values, like &', min: 1, max: Infinity, run: (args) => args.map(toText).join('') },
+  contains: {
+    group: 'Text', syntax: 'contains(text, find)', description: 'Whether the text includes find', min: 2, max: 2,
+    run: ([v, find]) => toText(v).toLocaleLowerCase().includes(toText(find).toLocaleLowerCase()),
+  },
+  startswith: {
+    group: 'Text', syntax: 'startswith(text, prefix)', description: 'Whether the text begins with prefix', min: 2, max: 2,
+    run: ([v, prefix]) => toText(v).toLocaleLowerCase().startsWith(toText(prefix).toLocaleLowerCase()),
+  },
+  endswith: {
+    group: 'Text', syntax: 'endswith(text, suffix)', description: 'Whether the text ends with suffix', min: 2, max: 2,
+    run: ([v, suffix]) => toText(v).toLocaleLowerCase().endsWith(toText(suffix).toLocaleLowerCase()),
+  },
+  lpad: { group: 'Text', syntax: 'lpad(text, length, [char])', description: 'Pads on the left, with 0 by default', min: 2, max: 3, run: (args) => pad(args, false, '0') },
+  rpad: { group: 'Text', syntax: 'rpad(text, length, [char])', description: 'Pads on the right, with spaces by default', min: 2, max: 3, run: (args) => pad(args, true, ' ') },
+  checkdigit: {
+    group: 'Text', syntax: 'checkdigit(digits)', description: 'GS1 check digit for a GTIN, SSCC or GLN', min: 1, max: 1,
+    run: ([v]) => {
+      const digits = toText(v).trim();
+      if (!/^\d+$/.test(digits)) throw new Error(`"${digits}" is not all digits`);
+      return calculateGs1CheckDigit(digits);
+    },
+  },
+
+  number: {
+    group: 'Numbers', syntax: 'number(text)', description: 'Reads a number such as "$1,234.50"', min: 1, max: 1,
+    run: ([v]) => {
+      const number = typeof v === 'number' ? v : parseNumber(toText(v));
+      if (number === null) throw new Error(`"${toText(v)}" is not a number`);
+      return number;
+    },
+  },
+  round: {
+    group: 'Numbers', syntax: 'round(number, [decimals])', description: 'Rounds to whole numbers or decimals', min: 1, max: 2,
+    run: ([v, decimals]) => {
+      const factor = 10 ** (decimals !== undefined ? toNumber(decimals) : 0);
+      return Math.round(toNumber(v) * factor) / factor;
+    },
+  },
+  fixed: {
+    group: 'Numbers', syntax: 'fixed(number, decimals)', description: 'Text with exactly that many decimals', min: 2, max: 2,
+    run: ([v, decimals]) => toNumber(v).toFixed(Math.min(20, Math.max(0, toNumber(decimals)))),
+  },
+  floor: { group: 'Numbers', syntax: 'floor(number)', description: 'Rounds down', min: 1, max: 1, run: ([v]) => Math.floor(toNumber(v)) },
+  ceil: { group: 'Numbers', syntax: 'ceil(number)', description: 'Rounds up', min: 1, max: 1, run: ([v]) => Math.ceil(toNumber(v)) },
+  abs: { group: 'Numbers', syntax: 'abs(number)', description: 'Drops the sign', min: 1, max: 1, run: ([v]) => Math.abs(toNumber(v)) },
+  min: { group: 'Numbers', syntax: 'min(a, b, ...)', description: 'Smallest number', min: 1, max: Infinity, run: (args) => Math.min(...args.map(toNumber)) },
+  max: { group: 'Numbers', syntax: 'max(a, b, ...)', description: 'Largest number', min: 1, max: Infinity, run: (args) => Math.max(...args.map(toNumber)) },
+
+  date: {
+    group: 'Dates', syntax: 'date(text, [order]) or date(year, month, day)', description: "Reads a date; order is 'dmy', 'mdy', 'ymd' or 'serial'", min: 1, max: 3,
+    run: (args) => {
+      if (args.length === 3) {
+        const [year, month, day] = args.map(toNumber);
+        const date = new Date(Date.UTC(year, month - 1, day));
+        // Rejects month 13 or February 30 instead of rolling over into the next month or year
+        if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+          throw new Error(`${year}-${month}-${day} is not a date`);
+        }
+        return date;
+      }
+      if (args[0] instanceof Date) return args[0];
+      const order = args[1] !== undefined ? toText(args[1]).toLowerCase() as DateInputOrder : 'auto';
+      if (!DATE_INPUT_ORDERS.some(option => option.value === order)) throw new Error(`Unknown date order "${order}"`);
+      const date = parseDate(toText(args[0]), order);
+      if (!date) throw new Error(`"${toText(args[0])}" is not a date`);
+      return date;
+    },
+  },
+  today: {
+    group: 'Dates', syntax: 'today()', description: 'The date of printing', min: 0, max: 0,
+    run: () => {
+      const now = new Date();
+      return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+    },
+  },
+  adddays: { group: 'Dates', syntax: 'adddays(date, days)', description: 'Date plus days, like date + days', min: 2, max: 2, run: ([d, n]) => addDays(toDate(d), toNumber(n)) },
+  addmonths: { group: 'Dates', syntax: 'addmonths(date, months)', description: 'Date plus months, kept within the month', min: 2, max: 2, run: ([d, n]) => addMonths(toDate(d), toNumber(n)) },
+  addyears: { group: 'Dates', syntax: 'addyears(date, years)', description: 'Date plus years', min: 2, max: 2, run: ([d, n]) => addMonths(toDate(d), toNumber(n) * 12) },
+  days: {
+    group: 'Dates', syntax: 'days(start, end)', description: 'Days from start to end', min: 2, max: 2,
+    run: ([start, end]) => Math.round((toDate(end).getTime() - toDate(start).getTime()) / DAY_MS),
+  },
+  year: { group: 'Dates', syntax: 'year(date)', description: 'Year number', min: 1, max: 1, run: ([d]) => toDate(d).getUTCFullYear() },
+  month: { group: 'Dates', syntax: 'month(date)', description: 'Month number, 1 to 12', min: 1, max: 1, run: ([d]) => toDate(d).getUTCMonth() + 1 },
+  day: { group: 'Dates', syntax: 'day(date)', description: 'Day of the month', min: 1, max: 1, run: ([d]) => toDate(d).getUTCDate() },
+  formatdate: {
+    group: 'Dates', syntax: 'formatdate(date, pattern, [locale])', description: "Date as text, e.g. 'DD/MM/YYYY' or 'DD MMM YY'", min: 2, max: 3,
+    run: ([d, pattern, locale]) => formatDate(toDate(d), toText(pattern), locale !== undefined ? toText(locale) : undefined),
+  },
+
+  if: { group: 'Logic', syntax: 'if(condition, then, [else])', description: 'Picks a value; else is blank when left out', min: 2, max: 3, run: () => '' }, // Evaluated lazily by evaluate()
+  isblank: { group: 'Logic', syntax: 'isblank(value)', description: 'Whether the value is empty or only spaces', min: 1, max: 1, run: ([v]) => toText(v).trim() === '' },
+  coalesce: {
+    group: 'Logic', syntax: 'coalesce(a, b, ...)', description: 'First value that is not blank', min: 1, max: Infinity,
+    run: (args) => args.find(v => toText(v).trim() !== '') ?? '',
+  },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.values(FUNCTIONS).map(({ group, syntax, description }) => ({ group, syntax, description }));
+
+// --- Parser ---
+
+const COMPARISONS: Record<string, string> = { '=': '=', '==': '=', '!=': '!=', '<>': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=' };
+
+const parse = (expression: string): Node => {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOp = (...ops: string[]) => peek().type === 'op' && ops.includes(peek().value);
+  const isWord = (word: string) => peek().type === 'name' && peek().value.toLowerCase() === word;
+  const describe = (token: Token) => token.type === 'end' ? 'end of expression' : `"${token.value}" at position ${token.position}`;
+
+  const expect = (op: string) => {
+    if (!isOp(op)) throw new Error(`Expected ${op} but found ${describe(peek())}`);
+    index++;
+  };
+
+  const parseOr = (): Node => {
+    let node = parseAnd();
+    while (isWord('or') || isOp('||')) {
+      index++;
+      node = { kind: 'binary', op: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): Node => {
+    let node = parseNot();
+    while (isWord('and') || isOp('&&')) {
+      index++;
+      node = { kind: 'binary', op: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): Node => {
+    if (isWord('not') || isOp('!')) {
+      index++;
+      return { kind: 'unary', op: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Node => {
+    const left = parseConcat();
+    const op = peek().type === 'op' ? COMPARISONS[peek().value] : undefined;
+    if (!op) return left;
+    index++;
+    return { kind: 'binary', op, left, right: parseConcat() };
+  };
+
+  const parseConcat = (): Node => {
+    let node = parseAdditive();
+    while (isOp('&')) {
+      index++;
+      node = { kind: 'binary', op: '&', left: node, right: parseAdditive() };
+    }
+    return node;
+  };
+
+  const parseAdditive = (): Node => {
+    let node = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const op = tokens[index++].value;
+      node = { kind: 'binary', op, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  const parseMultiplicative = (): Node => {
+    let node = parseUnary();
+    while (isOp('*', '/', '%')) {
+      const op = tokens[index++].value;
+      node = { kind: 'binary', op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp('-', '+')) {
+      const op = tokens[index++].value;
+      const operand = parseUnary();
+      return op === '-' ? { kind: 'unary', op: '-', operand } : operand;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'field':
+        if (!token.value) throw new Error(`Empty column name at position ${token.position}`);
+        return { kind: 'field', name: token.value };
+      case 'name': {
+        const lower = token.value.toLowerCase();
+        if (isOp('(')) {
+          // Own keys only, so "constructor" or "toString" aren't taken for functions
+          const fn = Object.hasOwn(FUNCTIONS, lower) ? FUNCTIONS[lower] : undefined;
+          if (!fn) throw new Error(`Unknown function "${token.value}" at position ${token.position}`);
+          index++;
+          const args: Node[] = [];
+          if (!isOp(')')) {
+            do {
+              if (args.length > 0) index++; // The comma
+              args.push(parseOr());
+            } while (isOp(','));
+          }
+          expect(')');
+          if (args.length < fn.min || args.length > fn.max) throw new Error(`${fn.syntax} is called with ${args.length} argument${args.length === 1 ? '' : 's'}`);
+          return { kind: 'call', name: lower, args };
+        }
+        if (lower === 'true' || lower === 'false') return { kind: 'literal', value: lower === 'true' };
+        return { kind: 'field', name: token.value };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const node = parseOr();
+          expect(')');
+          return node;
+        }
+        break;
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  if (peek().type === 'end') throw new Error('Expression is empty');
+  const node = parseOr();
+  if (peek().type !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return node;
+};
+
+// --- Evaluation ---
+
+const evaluate = (node: Node, row: Record<string, string>): Value => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      if (!Object.hasOwn(row, node.name)) throw new Error(`Unknown column "${node.name}"`);
+      return row[node.name];
+    case 'unary': {
+      const value = evaluate(node.operand, row);
+      return node.op === 'not' ? !toBoolean(value) : -toNumber(value);
+    }
+    case 'call':
+      // Only the branch taken is evaluated, so it may fail for other rows
+      if (node.name === 'if') {
+        const branch = toBoolean(evaluate(node.args[0], row)) ? node.args[1] : node.args[2];
+        return branch ? evaluate(branch, row) : '';
+      }
+      return FUNCTIONS[node.name].run(node.args.map(arg => evaluate(arg, row)));
+    case 'binary':
+      break;
+  }
+
+  if (node.op === 'and') return toBoolean(evaluate(node.left, row)) && toBoolean(evaluate(node.right, row));
+  if (node.op === 'or') return toBoolean(evaluate(node.left, row)) || toBoolean(evaluate(node.right, row));
+
+  const left = evaluate(node.left, row);
+  const right = evaluate(node.right, row);
+  switch (node.op) {
+    case '&': return toText(left) + toText(right);
+    case '=': return compare(left, right) === 0;
+    case '!=': return compare(left, right) !== 0;
+    case '<': return compare(left, right) < 0;
+    case '<=': return compare(left, right) <= 0;
+    case '>': return compare(left, right) > 0;
+    case '>=': return compare(left, right) >= 0;
+    case '+':
+    case '-': {
+      const a = toOperand(left);
+      const b = toOperand(right);
+      if (a instanceof Date && b instanceof Date) {
+        if (node.op === '+') throw new Error('Two dates cannot be added');
+        return Math.round((a.getTime() - b.getTime()) / DAY_MS);
+      }
+      if (a instanceof Date) return addDays(a, node.op === '+' ? (b as number) : -(b as number));
+      if (b instanceof Date) {
+        if (node.op === '-') throw new Error('A date cannot be subtracted from a number');
+        return addDays(b, a);
+      }
+      return node.op === '+' ? a + b : a - b;
+    }
+    default: {
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (b === 0 && node.op !== '*') throw new Error('Division by zero');
+      return node.op === '*' ? a * b : node.op === '/' ? a / b : a % b;
+    }
+  }
+};
+
+const collectFields = (node: Node, names: string[]) => {
+  if (node.kind === 'field') names.push(node.name);
+  else if (node.kind === 'unary') collectFields(node.operand, names);
+  else if (node.kind === 'binary') { collectFields(node.left, names); collectFields(node.right, names); }
+  else if (node.kind === 'call') node.args.forEach(arg => collectFields(arg, names));
+  return names;
+};
+
+/**
+ * Evaluates an expression against one data row and returns the text to
+ * print. Dates print as YYYY-MM-DD, ready for a date value format.
+ */
+export const evaluateExpression = (expression: string, row: Record<string, string>): string =>
+  toText(evaluate(parse(expression), row));
+
+// --- Computed Fields ---
+
+/**
+ * The first problem with each field, or null: a missing or clashing key, a
+ * syntax error, or a column that doesn't exist. Columns are only checked
+ * when known, so fields can be written before data is imported. A field may
+ * use the fields above it.
+ */
+export const checkComputedFields = (fields: ComputedField[], columns: string[]): (string | null)[] => {
+  const known = new Set(columns);
+  return fields.map(field => {
+    const key = field.key.trim();
+    let error: string | null = null;
+    if (!key) error = 'Name is required';
+    else if (/[{}]/.test(key)) error = 'Name cannot contain { or }';
+    else if (known.has(key)) error = `"${key}" is already a column or field`;
+    else {
+      try {
+        const missing = collectFields(parse(field.expression), []).find(name => !known.has(name));
+        if (missing && columns.length > 0) error = `Unknown column "${missing}"`;
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+    }
+    if (key) known.add(key);
+    return error;
+  });
+};
+
+// Defined rather than assigned, so a field named "__proto__" is a field and not the prototype
+const setField = (row: Record<string, string>, key: string, value: string) => {
+  Object.defineProperty(row, key, { value, writable: true, enumerable: true, configurable: true });
+};
+
+/**
+ * The row with every computed field added, in order so each can use the ones
+ * before it. A field that fails for this row prints #ERROR.
+ */
+export const addComputedFields = (row: Record<string, string>, fields: ComputedField[] | undefined): Record<string, string> => {
+  if (!fields || fields.length === 0) return row;
+  const result = { ...row };
+  fields.forEach(field => {
+    const key = field.key.trim();
+    if (!key || !field.expression.trim()) return;
+    try {
+      setField(result, key, evaluateExpression(field.expression, result));
+    } catch {
+      setField(result, key, COMPUTED_ERROR_VALUE);
+    }
+  });
+  return result;
+};
+
+/**
+ * Each field's value for one row, or the reason it failed, for previewing
+ * fields while they are written.
+ */
+export const previewComputedFields = (row: Record<string, string>, fields: ComputedField[]): { value: string | null; error: string | null }[] => {
+  const result = { ...row };
+  return fields.map(field => {
+    try {
+      const value = evaluateExpression(field.expression, result);
+      if (field.key.trim()) setField(result, field.key.trim(), value);
+      return { value, error: null };
+    } catch (e) {
+      if (field.key.trim()) setField(result, field.key.trim(), COMPUTED_ERROR_VALUE);
+      return { value: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+};
@@ -1,47 +1,33 @@
 import * as fabric from 'fabric';
-import QRCode from 'qrcode';
-import JsBarcode from 'jsbarcode';
-import { INCH_TO_PX, COLORS } from '../constants';
-import { LabelObject, LabelTemplate } from '../types';
-
-// --- Generators ---
-
-const getBarcodeDataUrl = (text: string, color: string = '#000000'): string => {
-  const canvas = document.createElement('canvas');
-  try {
-    JsBarcode(canvas, text, {
-      format: 'CODE128',
-      displayValue: true,
-      fontSize: 40, // High res font
-      margin: 10,
-      width: 4, // Thicker bars for higher resolution
-      height: 100, // Taller bars
-      background: '#ffffff', // Ensure white background
-      lineColor: color
-    });
-    return canvas.toDataURL('image/png'); // Use PNG for barcode generation to keep quality
-  } catch (e) {
-    console.error("Barcode generation failed", e);
-    return '';
-  }
-};
-
-const getQrDataUrl = async (text: string, color: string = '#000000'): Promise<string> => {
-  try {
-    // Generate at high resolution (e.g., 400px)
-    return await QRCode.toDataURL(text, { 
-      width: 400, 
-      margin: 1,
-      color: {
-        dark: color,
-        light: '#ffffff'
-      }
-    });
-  } catch (e) {
-    console.error("QR generation failed", e);
-    return '';
-  }
-};
+import { INCH_TO_PX, COLORS, LengthUnit, convertLength, isLengthUnit } from '../constants';
+import { BarcodeFormat, LabelObject, LabelTemplate, MatrixCodeType, ValueFormat } from '../types';
+import { makePlaceholder, hasPlaceholders, findPlaceholderValues } from './placeholders';
+import { DEFAULT_BARCODE_FORMAT } from './barcodeSymbology';
+import { DEFAULT_MATRIX_TYPE } from './matrixCodes';
+import { CodeSymbol, migrateLegacyCodes } from './codeSymbol';
+import { createShapeClipPath, getLabelShape } from './labelShape';
+import { TextFrame } from './textFrame';
+import { LabelText } from './labelText';
+import { bakeTextCase, replaceStyledText } from './textStyle';
+import { formatRow, isDefaultFormat } from './valueFormat';
+import { addComputedFields } from './expressions';
+
+// Custom properties carried through serialization and undo history
+export const CUSTOM_PROPERTIES = [
+  'dataKey', 'isBarcode', 'isQrCode', 'barcodeFormat', 'id',
+  'isMatrixCode', 'matrixType', 'quietZone', 'codeColumns', 'codeShape',
+  'moduleSize', 'barHeight', 'showText',
+  'frameHeight', 'maxLines', 'shrinkToFit', 'minFontSize', 'ellipsis',
+  'textCase', 'valueFormats'
+];
+
+export const isCodeSymbol = (obj: fabric.Object | null | undefined): obj is CodeSymbol => obj instanceof CodeSymbol;
+
+export const isTextFrame = (obj: fabric.Object | null | undefined): obj is TextFrame => obj instanceof TextFrame;
+
+// Plain, editable and framed text all take placeholders and font settings
+export const isTextObject = (obj: fabric.Object | null | undefined): obj is fabric.IText =>
+  !!obj && (obj.type === 'i-text' || obj.type === 'text' || obj instanceof TextFrame);
 
 // --- Canvas Logic ---
 
@@ -57,9 +43,9 @@ export const createFabricCanvas = (canvasId: string, widthInches: number, height
   return canvas;
 };
 
-export const resizeCanvas = (canvas: fabric.Canvas, widthInches: number, heightInches: number, zoom: number = 1) => {
-  const baseWidth = INCH_TO_PX(widthInches);
-  const baseHeight = INCH_TO_PX(heightInches);
+export const resizeCanvas = (canvas: fabric.Canvas, width: number, height: number, unit: LengthUnit, zoom: number = 1) => {
+  const baseWidth = convertLength(width, unit, 'px');
+  const baseHeight = convertLength(height, unit, 'px');
 
   // Set physical dimensions based on zoom
   canvas.setDimensions({
@@ -72,8 +58,22 @@ export const resizeCanvas = (canvas: fabric.Canvas, widthInches: number, heightI
   canvas.requestRenderAll();
 };
 
+/**
+ * Measures text again once a font has loaded, so line widths and wrapping
+ * come from the real glyphs instead of the fallback font.
+ */
+export const refreshTextLayout = (canvas: fabric.Canvas, fontFamily?: string) => {
+  canvas.getObjects().forEach(obj => {
+    if (isTextObject(obj) && (!fontFamily || obj.fontFamily === fontFamily)) {
+      obj.initDimensions();
+      obj.setCoords();
+    }
+  });
+  canvas.requestRenderAll();
+};
+
 export const addStaticText = (canvas: fabric.Canvas, text: string = 'New Text') => {
-  const textObj = new fabric.IText(text, {
+  const textObj = new LabelText(text, {
     left: 50,
     top: 50,
     fontFamily: 'Arial',
@@ -111,7 +111,7 @@ export const addVariableText = (canvas: fabric.Canvas, dataKey: string) => {
     objectCaching: false, // Critical for sharp text on zoom
   };
   
-  const textObj = new fabric.IText(`{{${dataKey}}}`, options);
+  const textObj = new LabelText(makePlaceholder(dataKey), options);
   (textObj as any).dataKey = dataKey;
 
   // Hide resize controls, only allow rotation and movement
@@ -126,71 +126,40 @@ export const addVariableText = (canvas: fabric.Canvas, dataKey: string) => {
   canvas.requestRenderAll();
 };
 
-export const addBarcode = (canvas: fabric.Canvas, dataKey: string) => {
-  const dataUrl = getBarcodeDataUrl(`{{${dataKey}}}`);
-  
-  fabric.Image.fromURL(dataUrl).then((img) => {
-    img.set({
-      left: 50,
-      top: 150,
-      // Scale down because we generated at high res (width: 4)
-      scaleX: 0.5, 
-      scaleY: 0.5,
-      strokeWidth: 0,
-      stroke: undefined,
-      objectCaching: false, // Critical for sharp rendering on zoom
-      lockScalingFlip: true, // Prevent flipping
-      fill: '#000000', // Store color meta-data
-    });
-    
-    // Hide side controls to enforce uniform scaling via corners
-    img.setControlsVisibility({
-      mt: false, mb: false, ml: false, mr: false, 
-      bl: true, br: true, tl: true, tr: true,
-      mtr: true, 
-    });
-
-    // Custom properties
-    (img as any).isBarcode = true;
-    (img as any).dataKey = dataKey;
-
-    canvas.add(img);
-    canvas.setActiveObject(img);
-    canvas.requestRenderAll();
+export const addTextFrame = (canvas: fabric.Canvas, text: string = 'Text that wraps inside a fixed frame') => {
+  const frame = new TextFrame(text, {
+    left: 50,
+    top: 50,
+    width: 200,
+    frameHeight: 60,
+    fontFamily: 'Arial',
+    fontSize: 20,
+    fill: '#000000',
+    strokeWidth: 0,
   });
+
+  canvas.add(frame);
+  canvas.setActiveObject(frame);
+  canvas.requestRenderAll();
 };
 
-export const addQrCode = async (canvas: fabric.Canvas, dataKey: string) => {
-  const dataUrl = await getQrDataUrl(`{{${dataKey}}}`);
-  
-  fabric.Image.fromURL(dataUrl).then((img) => {
-    img.set({
-      left: 100,
-      top: 100,
-      // Scale down because we generated at high res (width: 400)
-      scaleX: 0.25, 
-      scaleY: 0.25,
-      strokeWidth: 0,
-      stroke: undefined,
-      objectCaching: false, // Critical for sharp rendering on zoom
-      lockScalingFlip: true, // Prevent flipping
-      fill: '#000000', // Store color meta-data
-    });
+const addCodeSymbol = (canvas: fabric.Canvas, options: Record<string, any>) => {
+  const code = new CodeSymbol({ left: 50, top: 150, ...options });
+  canvas.add(code);
+  canvas.setActiveObject(code);
+  canvas.requestRenderAll();
+};
 
-    // Hide side controls to enforce uniform scaling via corners
-    img.setControlsVisibility({
-      mt: false, mb: false, ml: false, mr: false, 
-      bl: true, br: true, tl: true, tr: true,
-      mtr: true, 
-    });
+export const addBarcode = (canvas: fabric.Canvas, dataKey: string, format: BarcodeFormat = DEFAULT_BARCODE_FORMAT) => {
+  addCodeSymbol(canvas, { isBarcode: true, barcodeFormat: format, dataKey });
+};
 
-    (img as any).isQrCode = true;
-    (img as any).dataKey = dataKey;
+export const addQrCode = (canvas: fabric.Canvas, dataKey: string) => {
+  addCodeSymbol(canvas, { left: 100, top: 100, isQrCode: true, dataKey });
+};
 
-    canvas.add(img);
-    canvas.setActiveObject(img);
-    canvas.requestRenderAll();
-  });
+export const addMatrixCode = (canvas: fabric.Canvas, dataKey: string, type: MatrixCodeType = DEFAULT_MATRIX_TYPE) => {
+  addCodeSymbol(canvas, { left: 100, top: 100, isMatrixCode: true, matrixType: type, dataKey });
 };
 
 // --- Shape Generators ---
@@ -263,67 +232,81 @@ export const addLine = (canvas: fabric.Canvas) => {
 
 // --- Updaters ---
 
-export const updateObjectDataKey = async (obj: fabric.Object, key: string) => {
+export const updateObjectDataKey = (obj: fabric.Object, key: string) => {
+  const previousKey = (obj as any).dataKey;
   (obj as any).dataKey = key;
-  // Preserve current color
-  const color = (obj.fill as string) || '#000000';
   
-  if (obj.type === 'i-text' || obj.type === 'text') {
-    (obj as fabric.IText).set('text', `{{${key}}}`);
-    obj.canvas?.requestRenderAll();
+  if (isTextObject(obj)) {
+    const textObj = obj;
+    const current = textObj.text || '';
+    // Rebind only the old field's token so surrounding literal text survives
+    const tokens = previousKey ? findPlaceholderValues(current, { [previousKey]: makePlaceholder(key) }) : [];
+    replaceStyledText(textObj, tokens.length > 0 ? tokens : [{ start: 0, end: current.length, value: makePlaceholder(key) }]);
   } 
-  else if (obj.type === 'image') {
-    const imgObj = obj as fabric.Image;
-    if ((imgObj as any).isBarcode) {
-        const newDataUrl = getBarcodeDataUrl(`{{${key}}}`, color);
-        const tempImg = new Image();
-        tempImg.src = newDataUrl;
-        tempImg.onload = () => {
-            imgObj.setElement(tempImg);
-            imgObj.set({ stroke: undefined });
-            imgObj.canvas?.requestRenderAll();
-        }
-    } else if ((imgObj as any).isQrCode) {
-        const newDataUrl = await getQrDataUrl(`{{${key}}}`, color);
-        const tempImg = new Image();
-        tempImg.src = newDataUrl;
-        tempImg.onload = () => {
-            imgObj.setElement(tempImg);
-            imgObj.set({ stroke: undefined });
-            imgObj.canvas?.requestRenderAll();
-        }
-    }
+  else if (isCodeSymbol(obj)) {
+    obj.updateCode();
   }
+  obj.canvas?.requestRenderAll();
 };
 
-export const updateObjectColor = async (obj: fabric.Object, color: string) => {
-  obj.set('fill', color);
-  
-  if (obj.type === 'image') {
-     const key = (obj as any).dataKey || ' ';
-     const imgObj = obj as fabric.Image;
-     
-     if ((obj as any).isBarcode) {
-         const newDataUrl = getBarcodeDataUrl(`{{${key}}}`, color);
-         const tempImg = new Image();
-         tempImg.src = newDataUrl;
-         tempImg.onload = () => {
-             imgObj.setElement(tempImg);
-             imgObj.set({ stroke: undefined });
-             imgObj.canvas?.requestRenderAll();
-         };
-     } else if ((obj as any).isQrCode) {
-         const newDataUrl = await getQrDataUrl(`{{${key}}}`, color);
-         const tempImg = new Image();
-         tempImg.src = newDataUrl;
-         tempImg.onload = () => {
-             imgObj.setElement(tempImg);
-             imgObj.set({ stroke: undefined });
-             imgObj.canvas?.requestRenderAll();
-         };
-     }
+/**
+ * Sets how one bound field is formatted on this object. A plain text format
+ * removes the entry, so unformatted bindings store nothing.
+ */
+export const updateValueFormat = (obj: fabric.Object, key: string, format: ValueFormat) => {
+  const formats: Record<string, ValueFormat> = { ...(obj as any).valueFormats };
+  if (isDefaultFormat(format)) delete formats[key];
+  else formats[key] = format;
+  (obj as any).valueFormats = Object.keys(formats).length > 0 ? formats : undefined;
+};
+
+export const updateBarcodeFormat = (obj: fabric.Object, format: BarcodeFormat) => {
+  updateCodeSettings(obj, { barcodeFormat: format });
+};
+
+export interface CodeSettings {
+  barcodeFormat?: BarcodeFormat;
+  matrixType?: MatrixCodeType;
+  quietZone?: number;
+  codeColumns?: number;
+  codeShape?: 'square' | 'rectangle';
+  moduleSize?: number;
+  barHeight?: number;
+  showText?: boolean;
+}
+
+export const updateCodeSettings = (obj: fabric.Object, settings: CodeSettings) => {
+  if (!isCodeSymbol(obj)) return;
+  obj.set(settings);
+  obj.updateCode();
+  obj.canvas?.requestRenderAll();
+};
+
+/**
+ * Inserts a {{key}} token into a text object, at the cursor while editing,
+ * otherwise appended to the end of the text.
+ */
+export const insertPlaceholder = (obj: fabric.IText, key: string) => {
+  const token = makePlaceholder(key);
+  const text = obj.text || '';
+
+  if (obj.isEditing) {
+    const start = obj.selectionStart;
+    const end = obj.selectionEnd;
+    obj.insertChars(token, undefined, start, end);
+    obj.selectionStart = obj.selectionEnd = start + token.length;
+  } else {
+    const separator = text && !/\s$/.test(text) ? ' ' : '';
+    obj.insertChars(separator + token, undefined, text.length);
   }
-  
+
+  obj.initDimensions();
+  obj.setCoords();
+  obj.canvas?.requestRenderAll();
+};
+
+export const updateObjectColor = (obj: fabric.Object, color: string) => {
+  obj.set('fill', color);
   obj.canvas?.requestRenderAll();
 };
 
@@ -337,39 +320,100 @@ export const updateObjectStrokeWidth = (obj: fabric.Object, width: number) => {
   obj.canvas?.requestRenderAll();
 };
 
+// --- Geometry ---
+
+/**
+ * Position, size and rotation of an object or multi-selection, in canvas px.
+ * x/y is the object's own top-left corner, which turns with the object.
+ */
+export interface ObjectFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+export const getObjectFrame = (obj: fabric.Object): ObjectFrame => {
+  const corner = obj.getPointByOrigin('left', 'top');
+  return {
+    x: corner.x,
+    y: corner.y,
+    width: obj.getScaledWidth(),
+    height: obj.getScaledHeight(),
+    angle: obj.angle || 0,
+  };
+};
+
+/**
+ * Applies numeric edits. Rotation turns around the centre; resizing keeps the
+ * top-left corner in place.
+ */
+export const updateObjectFrame = (obj: fabric.Object, changes: Partial<ObjectFrame>) => {
+  if (changes.angle !== undefined) obj.rotate(changes.angle);
+
+  if (isTextFrame(obj) && (changes.width !== undefined || changes.height !== undefined)) {
+    // Frames resize instead of scaling, so the text keeps its size and rewraps
+    const corner = obj.getPointByOrigin('left', 'top');
+    obj.setFrameSize(
+      changes.width && changes.width > 0 ? changes.width / obj.scaleX : undefined,
+      changes.height && changes.height > 0 ? changes.height / obj.scaleY : undefined
+    );
+    obj.setPositionByOrigin(corner, 'left', 'top');
+  } else if (changes.width !== undefined || changes.height !== undefined) {
+    const corner = obj.getPointByOrigin('left', 'top');
+    const current = getObjectFrame(obj);
+    if (changes.width !== undefined && changes.width > 0 && current.width > 0) {
+      obj.set('scaleX', obj.scaleX * changes.width / current.width);
+    }
+    if (changes.height !== undefined && changes.height > 0 && current.height > 0) {
+      obj.set('scaleY', obj.scaleY * changes.height / current.height);
+    }
+    obj.setPositionByOrigin(corner, 'left', 'top');
+  }
+
+  if (changes.x !== undefined || changes.y !== undefined) {
+    const corner = obj.getPointByOrigin('left', 'top');
+    obj.setPositionByOrigin(new fabric.Point(changes.x ?? corner.x, changes.y ?? corner.y), 'left', 'top');
+  }
+
+  obj.setCoords();
+  obj.canvas?.requestRenderAll();
+};
+
+export const moveObjectBy = (obj: fabric.Object, dx: number, dy: number) => {
+  obj.set({ left: obj.left + dx, top: obj.top + dy });
+  obj.setCoords();
+  obj.canvas?.requestRenderAll();
+};
+
 export const serializeCanvas = (canvas: fabric.Canvas): LabelObject[] => {
   // Include standard properties plus our custom ones
   // Note: stroke, strokeWidth, fill are included by standard toObject call usually, 
   // but explicitly ensuring our custom logic works is good.
-  const json = canvas.toObject(['dataKey', 'isBarcode', 'isQrCode', 'id', 'stroke', 'strokeWidth', 'strokeUniform']);
+  const json = canvas.toObject([...CUSTOM_PROPERTIES, 'stroke', 'strokeWidth', 'strokeUniform']);
   return json.objects || [];
 };
 
+// Raster resolution of PNG label output relative to the 96 DPI canvas
+export const LABEL_EXPORT_MULTIPLIER = 3;
+
 /**
- * Generates a Data URL for a single label with specific data injected.
+ * Builds an off-screen canvas for a single label with a data row injected.
+ * The caller owns the canvas and must dispose it.
  */
-export const generateLabelImage = async (
+export const createLabelCanvas = async (
   template: LabelTemplate, 
   dataRow: Record<string, string> | null
-): Promise<string> => {
+): Promise<fabric.StaticCanvas> => {
   // Create a headless canvas
   const el = document.createElement('canvas');
   
-  // Detect unit and convert to pixels correctly
-  let widthPx = INCH_TO_PX(template.dimensions.width);
-  let heightPx = INCH_TO_PX(template.dimensions.height);
-
-  // If unit is CM or MM, convert to inches first because INCH_TO_PX expects inches
-  // Note: App.tsx stores the raw value in the unit.
-  if (template.dimensions.unit === 'cm') {
-    widthPx = INCH_TO_PX(template.dimensions.width / 2.54);
-    heightPx = INCH_TO_PX(template.dimensions.height / 2.54);
-  } else if (template.dimensions.unit === 'mm') {
-    widthPx = INCH_TO_PX(template.dimensions.width / 25.4);
-    heightPx = INCH_TO_PX(template.dimensions.height / 25.4);
-  }
+  // App.tsx stores the raw value in the unit; older templates may lack one
+  const unit = isLengthUnit(template.dimensions.unit) ? template.dimensions.unit : 'inch';
+  const widthPx = convertLength(template.dimensions.width, unit, 'px');
+  const heightPx = convertLength(template.dimensions.height, unit, 'px');
 
-  // High multiplier for PDF export quality
   const staticCanvas = new fabric.StaticCanvas(el, {
     width: widthPx,
     height: heightPx,
@@ -377,64 +421,75 @@ export const generateLabelImage = async (
     enableRetinaScaling: true
   });
 
-  await staticCanvas.loadFromJSON(template);
+  await staticCanvas.loadFromJSON({ ...template, objects: migrateLegacyCodes(template.objects) });
   
   // FIX: Force white background after loadFromJSON
   staticCanvas.backgroundColor = '#ffffff';
 
+  // Round and rounded labels come out transparent outside the die cut
+  const clipPath = createShapeClipPath(getLabelShape(template), widthPx, heightPx);
+  if (clipPath) staticCanvas.clipPath = clipPath;
+
   if (dataRow) {
-    const objects = staticCanvas.getObjects();
-    
-    const updates = objects.map(async (obj) => {
+    const fullRow = addComputedFields(dataRow, template.computedFields);
+    staticCanvas.getObjects().forEach((obj) => {
       const key = (obj as any).dataKey;
-      // Get the color from the object itself (loaded from JSON)
-      const color = (obj.fill as string) || '#000000';
-
-      if (key && dataRow[key] !== undefined) {
-        const value = dataRow[key];
-
-        // Text
-        if (obj.type === 'i-text' || obj.type === 'text') {
-           (obj as fabric.Text).set('text', value);
-           // REMOVED: (obj as fabric.Text).set('fill', '#000000'); 
-           // We now trust the 'fill' that came with the object from loadFromJSON
-        }
-        
-        // Barcode
-        if (obj.type === 'image' && (obj as any).isBarcode) {
-            const barcodeUrl = getBarcodeDataUrl(value || ' ', color);
-            const imgEl = document.createElement('img');
-            imgEl.src = barcodeUrl;
-            await new Promise(resolve => { imgEl.onload = resolve; });
-            (obj as fabric.Image).setElement(imgEl);
-            (obj as fabric.Image).set({ stroke: undefined });
+      const row = formatRow(fullRow, (obj as any).valueFormats);
+
+      // Text: resolve inline {{field}} tokens mixed with literal text. Values
+      // take the style of their token, so per-character styling survives
+      if (isTextObject(obj)) {
+        const textObj = obj;
+        const text = textObj.text || '';
+        if (hasPlaceholders(text)) {
+          replaceStyledText(textObj, findPlaceholderValues(text, row));
+        } else if (key && Object.hasOwn(row, key)) {
+          // Legacy binding: dataKey replaces the whole text
+          replaceStyledText(textObj, [{ start: 0, end: text.length, value: row[key] }]);
         }
+        return;
+      }
 
-        // QR Code
-        if (obj.type === 'image' && (obj as any).isQrCode) {
-            const qrUrl = await getQrDataUrl(value || ' ', color);
-            const imgEl = document.createElement('img');
-            imgEl.src = qrUrl;
-            await new Promise(resolve => { imgEl.onload = resolve; });
-            (obj as fabric.Image).setElement(imgEl);
-            (obj as fabric.Image).set({ stroke: undefined });
-        }
+      // Barcodes, QR and 2D codes: module size stays fixed, the symbol grows with the data.
+      // Values that can't be encoded render as an error box.
+      if (isCodeSymbol(obj) && key && Object.hasOwn(row, key)) {
+        obj.codeValue = row[key];
+        obj.updateCode();
       }
     });
-
-    await Promise.all(updates);
   }
 
+  // Case transforms go into the text for the exporters, then frames fit the
+  // text they ended up with for this row
+  staticCanvas.getObjects().forEach(obj => {
+    if (isTextObject(obj)) bakeTextCase(obj);
+    if (isTextFrame(obj)) obj.fitToFrame();
+  });
+
   staticCanvas.renderAll();
+  return staticCanvas;
+};
+
+/**
+ * Generates a Data URL for a single label with specific data injected.
+ * Previews pass a lower multiplier than print output.
+ */
+export const generateLabelImage = async (
+  template: LabelTemplate, 
+  dataRow: Record<string, string> | null,
+  multiplier: number = LABEL_EXPORT_MULTIPLIER
+): Promise<string> => {
+  const staticCanvas = await createLabelCanvas(template, dataRow);
   
   // Export using PNG for lossless quality and compatibility
   const dataUrl = staticCanvas.toDataURL({
     format: 'png',
-    multiplier: 3
+    multiplier
   });
 
+  const el = staticCanvas.getElement();
   staticCanvas.dispose();
   el.remove();
   
   return dataUrl;
-};
\ No newline at end of file
+};
@@ -0,0 +1,101 @@
+import * as fabric from 'fabric';
+import { LabelShape, LabelShapeKind, LabelTemplate } from '../types';
+import { MM_TO_PX } from '../constants';
+
+// Die-cut label outlines. The same outline drives the editor mask, the
+// clip of rendered labels and the PDF cut line.
+
+export const DEFAULT_LABEL_SHAPE: LabelShape = { kind: 'rectangle', cornerRadius: 0 };
+
+export const LABEL_SHAPES: { kind: LabelShapeKind; name: string }[] = [
+  { kind: 'rectangle', name: 'Rectangle' },
+  { kind: 'rounded', name: 'Rounded' },
+  { kind: 'circle', name: 'Circle' },
+  { kind: 'ellipse', name: 'Oval' },
+];
+
+export type ShapeOutline =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; radius: number }
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number };
+
+export const getLabelShape = (template: LabelTemplate): LabelShape =>
+  template.dimensions.shape ? { ...DEFAULT_LABEL_SHAPE, ...template.dimensions.shape } : DEFAULT_LABEL_SHAPE;
+
+/**
+ * Outline of the label inside `box`, in the box's units. `perMm` converts the
+ * corner radius into those units; `grow` (mm) offsets the outline outwards,
+ * or inwards when negative, for bleed and safe zone lines.
+ * A circle takes the shorter side as its diameter and is centred in the box.
+ */
+export const getShapeOutline = (
+  shape: LabelShape,
+  box: { x: number; y: number; width: number; height: number },
+  perMm: number,
+  grow: number = 0
+): ShapeOutline => {
+  const g = grow * perMm;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+
+  if (shape.kind === 'circle' || shape.kind === 'ellipse') {
+    const r = Math.min(box.width, box.height) / 2;
+    const rx = (shape.kind === 'circle' ? r : box.width / 2) + g;
+    const ry = (shape.kind === 'circle' ? r : box.height / 2) + g;
+    return { type: 'ellipse', cx, cy, rx: Math.max(0, rx), ry: Math.max(0, ry) };
+  }
+
+  const width = Math.max(0, box.width + 2 * g);
+  const height = Math.max(0, box.height + 2 * g);
+  const radius = shape.kind === 'rounded'
+    ? Math.min(Math.max(0, shape.cornerRadius * perMm + g), width / 2, height / 2)
+    : 0;
+  return { type: 'rect', x: cx - width / 2, y: cy - height / 2, width, height, radius };
+};
+
+/**
+ * SVG path data for an outline, for the editor overlay.
+ */
+export const getOutlinePath = (outline: ShapeOutline): string => {
+  if (outline.type === 'ellipse') {
+    const { cx, cy, rx, ry } = outline;
+    return `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+  }
+  const { x, y, width: w, height: h, radius: r } = outline;
+  if (r <= 0) return `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z`;
+  return [
+    `M ${x + r} ${y}`,
+    `H ${x + w - r} A ${r} ${r} 0 0 1 ${x + w} ${y + r}`,
+    `V ${y + h - r} A ${r} ${r} 0 0 1 ${x + w - r} ${y + h}`,
+    `H ${x + r} A ${r} ${r} 0 0 1 ${x} ${y + h - r}`,
+    `V ${y + r} A ${r} ${r} 0 0 1 ${x + r} ${y} Z`,
+  ].join(' ');
+};
+
+/**
+ * Canvas clip path for rendered labels; null for a plain rectangle, which the
+ * canvas edges clip already.
+ */
+export const createShapeClipPath = (shape: LabelShape, widthPx: number, heightPx: number): fabric.FabricObject | null => {
+  const outline = getShapeOutline(shape, { x: 0, y: 0, width: widthPx, height: heightPx }, MM_TO_PX(1));
+  if (outline.type === 'ellipse') {
+    return new fabric.Ellipse({
+      left: outline.cx,
+      top: outline.cy,
+      rx: outline.rx,
+      ry: outline.ry,
+      originX: 'center',
+      originY: 'center',
+      strokeWidth: 0,
+    });
+  }
+  if (outline.radius <= 0) return null;
+  return new fabric.Rect({
+    left: outline.x,
+    top: outline.y,
+    width: outline.width,
+    height: outline.height,
+    rx: outline.radius,
+    ry: outline.radius,
+    strokeWidth: 0,
+  });
+};
@@ -0,0 +1,24 @@
+import * as fabric from 'fabric';
+import { TextCase, applyTextCase } from './textStyle';
+
+/**
+ * Single-line or free text on the label. Draws its text in `textCase`: the
+ * transform is applied where fabric splits text into graphemes, so the editor
+ * measures and draws the transformed glyphs while the text itself, its styles
+ * and the cursor keep working on the characters as typed.
+ */
+export class LabelText extends fabric.IText {
+  static type = 'IText';
+
+  declare dataKey?: string;
+  declare textCase?: TextCase;
+
+  graphemeSplit(value: string): string[] {
+    return applyTextCase(super.graphemeSplit(value), this.textCase || 'none');
+  }
+}
+
+// Registered under fabric's own names, so saved "IText" and pre-v6 "i-text"
+// objects load as LabelText
+fabric.classRegistry.setClass(LabelText);
+fabric.classRegistry.setClass(LabelText, 'i-text');
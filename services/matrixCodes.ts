@@ -0,0 +1,131 @@
+import bwipjs from 'bwip-js/browser';
+import { MatrixCodeType } from '../types';
+
+export const DEFAULT_MATRIX_TYPE: MatrixCodeType = 'datamatrix';
+
+interface MatrixCodeSpec {
+  label: string;
+  hint: string;
+  bcid: string; // bwip-js encoder
+  sample: string; // Valid value shown on the editor canvas when the placeholder can't be encoded
+  quietZone: number; // Minimum margin recommended by the symbology spec, in modules
+}
+
+export const MATRIX_CODE_TYPES: Record<MatrixCodeType, MatrixCodeSpec> = {
+  datamatrix: {
+    label: 'Data Matrix',
+    hint: 'Compact square or rectangular code. Parts marking, small labels.',
+    bcid: 'datamatrix',
+    sample: 'DATAMATRIX',
+    quietZone: 1,
+  },
+  gs1datamatrix: {
+    label: 'GS1 DataMatrix',
+    hint: 'GS1 element strings with AIs in brackets, e.g. (01)09501101530003(10)LOT1.',
+    bcid: 'gs1datamatrix',
+    sample: '(01)09501101530003(10)ABC123',
+    quietZone: 1,
+  },
+  pdf417: {
+    label: 'PDF417',
+    hint: 'Stacked code for shipping, ID cards and boarding passes.',
+    bcid: 'pdf417',
+    sample: 'PDF417',
+    quietZone: 2,
+  },
+  azteccode: {
+    label: 'Aztec',
+    hint: 'Needs no quiet zone. Tickets and transport.',
+    bcid: 'azteccode',
+    sample: 'AZTEC',
+    quietZone: 0,
+  },
+};
+
+export interface MatrixCodeOptions {
+  columns?: number; // PDF417 only, 0 = automatic
+  shape?: 'square' | 'rectangle'; // Data Matrix only
+}
+
+/**
+ * Encoded symbol as a grid of modules, row-major, 1 = dark.
+ */
+export interface ModuleMatrix {
+  cols: number;
+  rows: number;
+  modules: number[];
+}
+
+export const getMatrixType = (obj: { matrixType?: MatrixCodeType }): MatrixCodeType =>
+  obj.matrixType && MATRIX_CODE_TYPES[obj.matrixType] ? obj.matrixType : DEFAULT_MATRIX_TYPE;
+
+export const getQuietZone = (obj: { matrixType?: MatrixCodeType; quietZone?: number }): number =>
+  obj.quietZone !== undefined ? obj.quietZone : MATRIX_CODE_TYPES[getMatrixType(obj)].quietZone;
+
+// bwip-js errors look like "bwipp.GS1aiMissingOpenParen#2949: AIs must start with '('"
+const cleanEncoderError = (e: unknown) => {
+  const message = e instanceof Error ? e.message : String(e);
+  return message.replace(/^bwipp?\.[\w#]+:\s*/, '');
+};
+
+const buildOptions = (type: MatrixCodeType, options: MatrixCodeOptions) => {
+  const opts: string[] = [];
+  if (type === 'pdf417' && options.columns && options.columns > 0) {
+    opts.push(`columns=${Math.round(options.columns)}`);
+  }
+  if ((type === 'datamatrix' || type === 'gs1datamatrix') && options.shape === 'rectangle') {
+    opts.push('format=rectangle');
+  }
+  return opts.join(' ');
+};
+
+/**
+ * Encodes the value into a module grid, or reports why it can't be encoded
+ * (bad GS1 syntax, capacity exceeded, ...).
+ */
+export const encodeMatrixCode = (
+  type: MatrixCodeType,
+  value: string,
+  options: MatrixCodeOptions = {}
+): { matrix: ModuleMatrix | null; error: string | null } => {
+  const spec = MATRIX_CODE_TYPES[type];
+  if (!value) {
+    return { matrix: null, error: `${spec.label} value is empty.` };
+  }
+
+  try {
+    const [symbol] = bwipjs.raw(spec.bcid, value, buildOptions(type, options));
+    if (!symbol || !('pixs' in symbol)) {
+      return { matrix: null, error: `${spec.label} encoder returned no symbol.` };
+    }
+
+    // Stacked codes (PDF417) report one pixs row per symbol row; repeat each
+    // row so the grid uses square modules at the encoder's row height.
+    const cols = symbol.pixx;
+    const storedRows = symbol.pixs.length / cols;
+    const rowHeight = Math.max(1, Math.round(symbol.pixy / storedRows));
+    const modules: number[] = [];
+    for (let r = 0; r < storedRows; r++) {
+      const row = symbol.pixs.slice(r * cols, (r + 1) * cols);
+      for (let i = 0; i < rowHeight; i++) modules.push(...row);
+    }
+
+    return { matrix: { cols, rows: storedRows * rowHeight, modules }, error: null };
+  } catch (e) {
+    return { matrix: null, error: cleanEncoderError(e) };
+  }
+};
+
+/**
+ * Cheap syntax check used when validating whole data sets, where running the
+ * full encoder for every row would stall the UI. Capacity errors are only
+ * caught at render time.
+ */
+export const checkMatrixValue = (type: MatrixCodeType, value: string): string | null => {
+  const spec = MATRIX_CODE_TYPES[type];
+  if (!value) return `${spec.label} value is empty.`;
+  if (type === 'gs1datamatrix' && !/^(\(\d{2,4}\)[^()]+)+$/.test(value.trim())) {
+    return 'GS1 DataMatrix expects bracketed AIs, e.g. (01)09501101530003(10)LOT1.';
+  }
+  return null;
+};
@@ -0,0 +1,60 @@
+import * as fabric from 'fabric';
+
+/**
+ * 1-bit raster used by thermal printer graphics commands.
+ */
+export interface MonoBitmap {
+  x: number; // dots from the label's top-left corner
+  y: number;
+  width: number; // dots
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array; // Row-major, most significant bit first, set bit = black dot
+}
+
+// 4x4 Bayer matrix: ordered dithering keeps photos recognisable at 1 bit
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+/**
+ * Renders one object at printer resolution and thresholds it to black and
+ * white, composited over white paper. Returns null for objects without area.
+ */
+export const renderObjectBitmap = (obj: fabric.FabricObject, dotsPerPx: number, dither: boolean = false): MonoBitmap | null => {
+  const element = obj.toCanvasElement({ multiplier: dotsPerPx, withoutShadow: true });
+  const { width, height } = element;
+  const ctx = element.getContext('2d');
+  if (!width || !height || !ctx) return null;
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = pixels[i + 3] / 255;
+      const luminance = (pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114) * alpha + 255 * (1 - alpha);
+      const threshold = dither ? (BAYER_4[(y % 4) * 4 + (x % 4)] + 0.5) * 16 : 128;
+      if (luminance < threshold) data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+
+  // toCanvasElement centres the object on a canvas rounded up to whole pixels
+  const center = obj.getCenterPoint();
+  return {
+    x: Math.round(center.x * dotsPerPx - width / 2),
+    y: Math.round(center.y * dotsPerPx - height / 2),
+    width,
+    height,
+    bytesPerRow,
+    data,
+  };
+};
+
+export const bitmapToHex = (bitmap: MonoBitmap, invert: boolean = false): string => {
+  let hex = '';
+  bitmap.data.forEach(byte => {
+    hex += (invert ? ~byte & 0xff : byte).toString(16).padStart(2, '0').toUpperCase();
+  });
+  return hex;
+};
@@ -0,0 +1,349 @@
+import * as fabric from 'fabric';
+import { jsPDF } from 'jspdf';
+import { CodeSymbol } from './codeSymbol';
+import { LABEL_EXPORT_MULTIPLIER } from './fabricHelper';
+import { ShapeOutline } from './labelShape';
+import { canEmbedInPdf, getCustomFont } from './customFonts';
+
+// Draws a label canvas into a jsPDF document with native PDF primitives:
+// real text, exact-size shapes and barcode modules. Anything that can't be
+// expressed that way makes the whole label fall back to an embedded PNG.
+
+export interface PdfBox {
+  x: number; // mm
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Clockwise quarter turns of a label on the page, for printers that feed sideways
+export type LabelRotation = 0 | 90 | 180 | 270;
+
+type Mat = fabric.TMat2D;
+
+const TEXT_TYPES = ['i-text', 'text', 'textbox', 'textframe'];
+const SHAPE_TYPES = ['rect', 'circle', 'ellipse', 'triangle', 'line'];
+
+// --- Support Check ---
+
+const describe = (obj: fabric.Object) => {
+  if (obj instanceof CodeSymbol) return 'Code';
+  if (TEXT_TYPES.includes(obj.type)) return `Text "${((obj as fabric.Text).text || '').slice(0, 16)}"`;
+  return obj.type.charAt(0).toUpperCase() + obj.type.slice(1);
+};
+
+const isPlainColor = (value: unknown) => value === null || value === undefined || value === '' || typeof value === 'string';
+
+const hasAlpha = (color: unknown) => typeof color === 'string' && color !== '' && color !== 'transparent' && new fabric.Color(color).getAlpha() < 1;
+
+const isBold = (fontWeight: string | number) => fontWeight === 'bold' || Number(fontWeight) >= 600;
+
+const isItalic = (fontStyle: string) => fontStyle === 'italic' || fontStyle === 'oblique';
+
+const getObjectIssue = (obj: fabric.Object): string | null => {
+  if (obj.shadow) return 'shadow';
+  if (obj.opacity < 1) return 'transparency';
+  if (obj.clipPath) return 'clip mask';
+  if (obj.globalCompositeOperation && obj.globalCompositeOperation !== 'source-over') return 'blend mode';
+  if (obj.skewX || obj.skewY) return 'skew';
+  if (!isPlainColor(obj.fill) || !isPlainColor(obj.stroke)) return 'gradient or pattern';
+  if (hasAlpha(obj.fill) || hasAlpha(obj.stroke)) return 'transparent color';
+
+  if (obj instanceof CodeSymbol) return null;
+  if (TEXT_TYPES.includes(obj.type)) {
+    const text = obj as fabric.Text;
+    if (text.stroke && text.strokeWidth > 0) return 'outlined text';
+    if (text.textBackgroundColor || text.backgroundColor) return 'text background';
+    if (text.underline || text.linethrough || text.overline) return 'text decoration';
+    if (!text.isEmptyStyles()) return 'per-character styles';
+    if (text.charSpacing) return 'letter spacing';
+    if (text.path) return 'text on path';
+    const custom = getCustomFont(text.fontFamily);
+    if (custom && !canEmbedInPdf(custom)) return `font "${custom.family}" can't be embedded`;
+    // An uploaded file is a single face; the browser fakes bold and italic
+    if (custom && (isBold(text.fontWeight) || isItalic(text.fontStyle))) return 'synthetic bold or italic';
+    return null;
+  }
+  if (obj.type === 'image') {
+    const img = obj as fabric.Image;
+    if (img.filters && img.filters.length > 0) return 'image filters';
+    if (img.cropX || img.cropY) return 'cropped image';
+    return null;
+  }
+  if (obj.type === 'circle') {
+    const circle = obj as fabric.Circle;
+    if (circle.startAngle !== 0 || circle.endAngle !== 360) return 'partial circle';
+    return null;
+  }
+  if (SHAPE_TYPES.includes(obj.type)) return null;
+  return `unsupported element (${obj.type})`;
+};
+
+/**
+ * Lists the reasons a label can't be drawn as vectors. Empty means fully vector.
+ */
+export const getVectorIssues = (canvas: fabric.StaticCanvas): string[] => {
+  const issues: string[] = [];
+  canvas.getObjects().forEach(obj => {
+    if (!obj.visible) return;
+    const issue = getObjectIssue(obj);
+    if (issue) issues.push(`${describe(obj)}: ${issue}`);
+  });
+  return issues;
+};
+
+// --- Drawing Helpers ---
+
+const toHex = (color: string) => `#${new fabric.Color(color).toHex()}`;
+
+const isVisibleColor = (color: unknown): color is string =>
+  typeof color === 'string' && color !== '' && color !== 'transparent';
+
+/**
+ * Applies a transform so that subsequent jsPDF calls can use object-local
+ * pixel coordinates. `local` maps local px to label mm (y down, like jsPDF's
+ * own coordinates); it is converted to the PDF's point-based, y-up space.
+ */
+const applyLocalTransform = (doc: jsPDF, local: Mat) => {
+  const [a, b, c, d, e, f] = local;
+  const k = doc.internal.scaleFactor;
+  const pageHeight = doc.internal.pageSize.getHeight() * k;
+  doc.setCurrentTransformationMatrix(doc.Matrix(
+    a,
+    -b,
+    -c,
+    d,
+    c * pageHeight + e * k,
+    pageHeight - d * pageHeight - f * k
+  ));
+};
+
+const setFillAndStroke = (doc: jsPDF, obj: fabric.Object, strokeScale: number) => {
+  const fill = isVisibleColor(obj.fill) ? toHex(obj.fill) : null;
+  const stroke = isVisibleColor(obj.stroke) && obj.strokeWidth > 0 ? toHex(obj.stroke) : null;
+  if (fill) doc.setFillColor(fill);
+  if (stroke) {
+    doc.setDrawColor(stroke);
+    doc.setLineWidth(obj.strokeWidth * strokeScale);
+    doc.setLineDashPattern(obj.strokeDashArray ? obj.strokeDashArray.map(v => v * strokeScale) : [], 0);
+  }
+  if (fill && stroke) return 'FD';
+  if (fill) return 'F';
+  if (stroke) return 'S';
+  return null;
+};
+
+/**
+ * Uploaded fonts are embedded under their family name, once per document.
+ * Anything else maps to the closest standard PDF font.
+ */
+const getPdfFont = (doc: jsPDF, fontFamily: string, fontWeight: string | number, fontStyle: string) => {
+  const custom = getCustomFont(fontFamily);
+  if (custom && canEmbedInPdf(custom)) {
+    if (!doc.getFontList()[custom.family]) {
+      const fileName = `${custom.family}.ttf`;
+      doc.addFileToVFS(fileName, custom.data);
+      doc.addFont(fileName, custom.family, 'normal');
+    }
+    return { name: custom.family, style: 'normal' };
+  }
+
+  const family = fontFamily.toLowerCase();
+  const name = /courier|mono/.test(family) ? 'courier' : /times|georgia|serif/.test(family) && !/sans/.test(family) ? 'times' : 'helvetica';
+  const bold = isBold(fontWeight);
+  const italic = isItalic(fontStyle);
+  const style = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+  return { name, style };
+};
+
+// --- Object Renderers ---
+
+const drawShape = (doc: jsPDF, obj: fabric.Object, placement: Mat) => {
+  // Geometry is scaled here rather than in the transform so strokes keep
+  // their width (strokeUniform) or scale with the average factor like fabric
+  const { angle, scaleX, scaleY, translateX, translateY } = fabric.util.qrDecompose(obj.calcTransformMatrix());
+  doc.saveGraphicsState();
+  applyLocalTransform(doc, fabric.util.multiplyTransformMatrices(
+    placement,
+    fabric.util.composeMatrix({ angle, translateX, translateY })
+  ));
+
+  const strokeScale = obj.strokeUniform ? 1 : (Math.abs(scaleX) + Math.abs(scaleY)) / 2;
+  const style = setFillAndStroke(doc, obj, strokeScale);
+  const w = obj.width * Math.abs(scaleX);
+  const h = obj.height * Math.abs(scaleY);
+
+  if (style) {
+    if (obj.type === 'rect') {
+      const rect = obj as fabric.Rect;
+      const rx = (rect.rx || 0) * Math.abs(scaleX);
+      const ry = (rect.ry || 0) * Math.abs(scaleY);
+      if (rx > 0 || ry > 0) {
+        doc.roundedRect(-w / 2, -h / 2, w, h, rx, ry, style);
+      } else {
+        doc.rect(-w / 2, -h / 2, w, h, style);
+      }
+    } else if (obj.type === 'circle') {
+      const r = (obj as fabric.Circle).radius;
+      doc.ellipse(0, 0, r * Math.abs(scaleX), r * Math.abs(scaleY), style);
+    } else if (obj.type === 'ellipse') {
+      const ellipse = obj as fabric.Ellipse;
+      doc.ellipse(0, 0, ellipse.rx * Math.abs(scaleX), ellipse.ry * Math.abs(scaleY), style);
+    } else if (obj.type === 'triangle') {
+      const sy = Math.sign(scaleY) || 1;
+      doc.triangle(-w / 2, (h / 2) * sy, 0, (-h / 2) * sy, w / 2, (h / 2) * sy, style);
+    } else if (obj.type === 'line' && style !== 'F') {
+      const { x1, y1, x2, y2 } = (obj as fabric.Line).calcLinePoints();
+      doc.line(x1 * scaleX, y1 * scaleY, x2 * scaleX, y2 * scaleY, 'S');
+    }
+  }
+
+  doc.restoreGraphicsState();
+};
+
+const drawText = (doc: jsPDF, obj: fabric.Text, placement: Mat) => {
+  if (!isVisibleColor(obj.fill)) return;
+  doc.saveGraphicsState();
+  applyLocalTransform(doc, fabric.util.multiplyTransformMatrices(placement, obj.calcTransformMatrix()));
+
+  const font = getPdfFont(doc, obj.fontFamily, obj.fontWeight, obj.fontStyle);
+  doc.setFont(font.name, font.style);
+  // One local px is one jsPDF unit here, and font sizes are in points
+  doc.setFontSize(obj.fontSize * doc.internal.scaleFactor);
+  doc.setTextColor(toHex(obj.fill));
+
+  const align = obj.textAlign === 'center' ? 'center' : obj.textAlign === 'right' ? 'right' : 'left';
+  const x = align === 'center' ? 0 : align === 'right' ? obj.width / 2 : -obj.width / 2;
+  let top = -obj.height / 2;
+  obj.textLines.forEach((line, i) => {
+    const lineHeight = obj.getHeightOfLine(i);
+    // Same baseline fabric uses: the line box minus the descender fraction
+    const baseline = top + (lineHeight / obj.lineHeight) * (1 - obj._fontSizeFraction);
+    if (line) doc.text(line, x, baseline, { align, baseline: 'alphabetic' });
+    top += lineHeight;
+  });
+
+  doc.restoreGraphicsState();
+};
+
+const drawCode = (doc: jsPDF, obj: CodeSymbol, placement: Mat) => {
+  doc.saveGraphicsState();
+  applyLocalTransform(doc, fabric.util.multiplyTransformMatrices(placement, obj.calcTransformMatrix()));
+  const left = -obj.width / 2;
+  const top = -obj.height / 2;
+  const layout = obj.getCodeLayout();
+
+  if (!layout) {
+    // Invalid data: same red box as on screen, never a scannable symbol
+    doc.setFillColor('#fef2f2');
+    doc.setDrawColor('#dc2626');
+    doc.setLineWidth(2);
+    doc.rect(left + 1, top + 1, obj.width - 2, obj.height - 2, 'FD');
+    doc.setTextColor('#dc2626');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13 * doc.internal.scaleFactor);
+    doc.text('INVALID BARCODE', 0, top + 22, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9 * doc.internal.scaleFactor);
+    doc.text((obj.getCodeError() || '').slice(0, 40), 0, top + 40, { align: 'center' });
+  } else {
+    doc.setFillColor('#ffffff');
+    doc.rect(left, top, obj.width, obj.height, 'F');
+    doc.setFillColor(toHex((obj.fill as string) || '#000000'));
+    layout.bars.forEach(bar => doc.rect(left + bar.x, top + bar.y, bar.w, bar.h, 'F'));
+    if (layout.text) {
+      doc.setFont('courier', 'normal');
+      doc.setFontSize(layout.text.fontSize * doc.internal.scaleFactor);
+      doc.setTextColor(toHex((obj.fill as string) || '#000000'));
+      doc.text(layout.text.value, left + layout.text.x, top + layout.text.y, { align: 'center', baseline: 'alphabetic' });
+    }
+  }
+
+  doc.restoreGraphicsState();
+};
+
+const drawImage = (doc: jsPDF, obj: fabric.Image, placement: Mat) => {
+  doc.saveGraphicsState();
+  applyLocalTransform(doc, fabric.util.multiplyTransformMatrices(placement, obj.calcTransformMatrix()));
+  const element = obj.getElement() as HTMLImageElement | HTMLCanvasElement;
+  const src = obj.getSrc();
+  const format = src.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG';
+  doc.addImage(element, format, -obj.width / 2, -obj.height / 2, obj.width, obj.height);
+  doc.restoreGraphicsState();
+};
+
+// --- Label ---
+
+/**
+ * Adds a label outline to the current path and paints it with `style`
+ * (null leaves the path open for clipping).
+ */
+export const traceOutline = (doc: jsPDF, outline: ShapeOutline, style: string | null) => {
+  if (outline.type === 'ellipse') doc.ellipse(outline.cx, outline.cy, outline.rx, outline.ry, style);
+  else if (outline.radius > 0) doc.roundedRect(outline.x, outline.y, outline.width, outline.height, outline.radius, outline.radius, style);
+  else doc.rect(outline.x, outline.y, outline.width, outline.height, style);
+};
+
+/**
+ * Label px -> page mm for a label filling `box`, turned by `rotation`.
+ */
+const getPlacement = (canvas: fabric.StaticCanvas, box: PdfBox, rotation: LabelRotation): Mat => {
+  const sideways = rotation === 90 || rotation === 270;
+  const width = sideways ? box.height : box.width; // Label size in mm before turning
+  const height = sideways ? box.width : box.height;
+  const turn: Mat = {
+    0: [1, 0, 0, 1, 0, 0],
+    90: [0, 1, -1, 0, height, 0],
+    180: [-1, 0, 0, -1, width, height],
+    270: [0, -1, 1, 0, 0, width],
+  }[rotation] as Mat;
+  return fabric.util.multiplyTransformMatrices(
+    fabric.util.multiplyTransformMatrices([1, 0, 0, 1, box.x, box.y], turn),
+    [width / canvas.getWidth(), 0, 0, height / canvas.getHeight(), 0, 0]
+  );
+};
+
+/**
+ * Draws one label into `box`, clipped to `outline` (page mm) when given.
+ * Returns false when the label needed the PNG fallback.
+ */
+export const drawLabel = (
+  doc: jsPDF,
+  canvas: fabric.StaticCanvas,
+  box: PdfBox,
+  vector: boolean = true,
+  rotation: LabelRotation = 0,
+  outline?: ShapeOutline
+): boolean => {
+  const placement = getPlacement(canvas, box, rotation);
+
+  if (!vector || getVectorIssues(canvas).length > 0) {
+    const png = canvas.toDataURL({ format: 'png', multiplier: LABEL_EXPORT_MULTIPLIER });
+    if (rotation === 0) {
+      doc.addImage(png, 'PNG', box.x, box.y, box.width, box.height);
+    } else {
+      doc.saveGraphicsState();
+      applyLocalTransform(doc, placement);
+      doc.addImage(png, 'PNG', 0, 0, canvas.getWidth(), canvas.getHeight());
+      doc.restoreGraphicsState();
+    }
+    return false;
+  }
+
+  // Clip to the label so overhanging elements are cut like in the PNG output
+  doc.saveGraphicsState();
+  traceOutline(doc, outline ?? { type: 'rect', ...box, radius: 0 }, null);
+  doc.clip();
+  doc.discardPath();
+
+  canvas.getObjects().forEach(obj => {
+    if (!obj.visible) return;
+    if (obj instanceof CodeSymbol) drawCode(doc, obj, placement);
+    else if (TEXT_TYPES.includes(obj.type)) drawText(doc, obj as fabric.Text, placement);
+    else if (obj.type === 'image') drawImage(doc, obj as fabric.Image, placement);
+    else drawShape(doc, obj, placement);
+  });
+
+  doc.restoreGraphicsState();
+  return true;
+};
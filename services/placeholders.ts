@@ -0,0 +1,38 @@
+// Inline data placeholders: any text may mix literal content with {{field}} tokens,
+// e.g. "SKU: {{sku}} / Lot {{lot}}". Tokens are resolved per data row at render time.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const makePlaceholder = (key: string) => `{{${key}}}`;
+
+export const hasPlaceholders = (text: string): boolean => {
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  return PLACEHOLDER_PATTERN.test(text);
+};
+
+/**
+ * Returns the distinct field keys referenced by the text, in order of first use.
+ */
+export const extractPlaceholders = (text: string): string[] => {
+  const keys: string[] = [];
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!keys.includes(match[1])) keys.push(match[1]);
+  }
+  return keys;
+};
+
+/**
+ * Locates each token that has a value in the row, as source offsets and the
+ * value replacing it, so callers can substitute while keeping track of which
+ * characters came from where. Tokens whose field is missing from the row are
+ * skipped and stay in the text, so the problem is visible on output. Only the
+ * row's own fields count, so {{constructor}} is missing rather than a function.
+ */
+export const findPlaceholderValues = (text: string, row: Record<string, string>) => {
+  const matches: { start: number; end: number; value: string }[] = [];
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!Object.hasOwn(row, match[1])) continue;
+    matches.push({ start: match.index, end: match.index + match[0].length, value: row[match[1]] });
+  }
+  return matches;
+};
@@ -0,0 +1,86 @@
+import { jsPDF } from 'jspdf';
+import { PrinterProfile } from '../types';
+import { LabelSlot } from './sheetLayout';
+
+// Printer calibration. The test page has a crosshair at a known distance from
+// the top-left paper corner and rulers running from it; measuring where the
+// crosshair landed and how long the rulers came out gives the printer's
+// offset and scale, which are then undone when placing labels.
+
+export const CALIBRATION_MARK_MM = 25; // Crosshair distance from the left and top paper edges
+export const CALIBRATION_RULER_MM = 150;
+
+export type CalibrationPaper = 'letter' | 'a4';
+
+const CROSSHAIR_SIZE_MM = 8;
+
+/**
+ * Moves and resizes a label position so that it prints where it was meant to
+ * on a printer with the given profile. Scaling pivots on the crosshair, where
+ * the offset was measured.
+ */
+export const applyPrinterProfile = (slot: LabelSlot, profile: PrinterProfile | null): LabelSlot => {
+  if (!profile) return slot;
+  const sx = profile.scaleX / 100;
+  const sy = profile.scaleY / 100;
+  return {
+    x: CALIBRATION_MARK_MM + (slot.x - CALIBRATION_MARK_MM - profile.offsetX) / sx,
+    y: CALIBRATION_MARK_MM + (slot.y - CALIBRATION_MARK_MM - profile.offsetY) / sy,
+    width: slot.width / sx,
+    height: slot.height / sy,
+  };
+};
+
+/**
+ * Test page to be printed at actual size (no "fit to page") and measured.
+ */
+export const createCalibrationPage = (paper: CalibrationPaper): jsPDF => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: paper });
+  const m = CALIBRATION_MARK_MM;
+  const end = m + CALIBRATION_RULER_MM;
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setTextColor(0, 0, 0);
+
+  // Crosshair on the reference point
+  doc.setLineWidth(0.15);
+  doc.line(m - CROSSHAIR_SIZE_MM, m, m + CROSSHAIR_SIZE_MM, m);
+  doc.line(m, m - CROSSHAIR_SIZE_MM, m, m + CROSSHAIR_SIZE_MM);
+  doc.circle(m, m, CROSSHAIR_SIZE_MM / 2, 'S');
+
+  // Rulers with a tick every mm, longer every 5 and numbered every 10
+  doc.setFontSize(6);
+  for (let mm = 0; mm <= CALIBRATION_RULER_MM; mm++) {
+    const tick = mm % 10 === 0 ? 4 : mm % 5 === 0 ? 2.5 : 1.5;
+    doc.setLineWidth(mm % 10 === 0 ? 0.2 : 0.1);
+    doc.line(m + mm, m, m + mm, m + tick);
+    doc.line(m, m + mm, m + tick, m + mm);
+    if (mm > 0 && mm % 10 === 0) {
+      doc.text(String(mm), m + mm, m + 6.5, { align: 'center' });
+      doc.text(String(mm), m + 5.5, m + mm + 1);
+    }
+  }
+  doc.setLineWidth(0.2);
+  doc.line(m, m, end, m);
+  doc.line(m, m, m, end);
+
+  // End marks so the full ruler length is easy to measure
+  doc.line(end, m - 3, end, m + 4);
+  doc.line(m - 3, end, m + 4, end);
+
+  doc.setFontSize(10);
+  const lines = [
+    'Printer calibration test page',
+    '',
+    'Print at 100% / "Actual size", with scaling and "fit to page" turned off.',
+    `1. Measure from the left paper edge to the crosshair centre (should be ${m} mm).`,
+    `2. Measure from the top paper edge to the crosshair centre (should be ${m} mm).`,
+    `3. Measure the horizontal ruler from the crosshair to its end mark (should be ${CALIBRATION_RULER_MM} mm).`,
+    `4. Measure the vertical ruler the same way (should be ${CALIBRATION_RULER_MM} mm).`,
+    'Enter the four measurements in the calibration dialog.',
+  ];
+  const textX = m + 20;
+  doc.text(doc.splitTextToSize(lines.join('\n'), doc.internal.pageSize.getWidth() - textX - m), textX, m + 25);
+
+  return doc;
+};
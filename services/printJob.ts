@@ -0,0 +1,78 @@
+// Expands data rows into the sequence of labels to print, honouring
+// per-row quantities and copies.
+
+export type CopyOrder = 'grouped' | 'collated';
+
+export interface CopySettings {
+  quantityKey: string; // Data column holding the quantity per row; '' = one per row
+  copies: number; // Multiplies every row's quantity
+  order: CopyOrder; // grouped: A A A B B, collated: A B A B A
+}
+
+export const DEFAULT_COPY_SETTINGS: CopySettings = { quantityKey: '', copies: 1, order: 'grouped' };
+
+/**
+ * Labels to print for one row. Blank, negative or non-numeric quantities
+ * print nothing rather than guessing.
+ */
+export const getRowQuantity = (row: Record<string, string> | null, settings: CopySettings): number => {
+  const copies = Math.max(0, Math.floor(settings.copies) || 0);
+  if (!settings.quantityKey || !row) return copies;
+
+  const raw = (row[settings.quantityKey] || '').trim();
+  const quantity = /^\d+(\.0*)?$/.test(raw) ? parseInt(raw, 10) : 0;
+  return quantity * copies;
+};
+
+/**
+ * Row index of every label in print order.
+ */
+export const buildPrintSequence = (rows: (Record<string, string> | null)[], settings: CopySettings): number[] => {
+  const quantities = rows.map(row => getRowQuantity(row, settings));
+  const sequence: number[] = [];
+
+  if (settings.order === 'grouped') {
+    quantities.forEach((quantity, rowIndex) => {
+      for (let i = 0; i < quantity; i++) sequence.push(rowIndex);
+    });
+    return sequence;
+  }
+
+  // Collated: one pass over the rows per copy, skipping rows that ran out
+  const passes = quantities.reduce((max, quantity) => Math.max(max, quantity), 0);
+  for (let pass = 0; pass < passes; pass++) {
+    quantities.forEach((quantity, rowIndex) => {
+      if (pass < quantity) sequence.push(rowIndex);
+    });
+  }
+  return sequence;
+};
+
+/**
+ * Rows whose quantity column holds something other than a whole number.
+ */
+export const findInvalidQuantities = (rows: Record<string, string>[], quantityKey: string): number[] => {
+  if (!quantityKey) return [];
+  return rows.flatMap((row, rowIndex) => (
+    /^\d+(\.0*)?$/.test((row[quantityKey] || '').trim()) ? [] : [rowIndex]
+  ));
+};
+
+export interface PrintRun {
+  rowIndex: number;
+  count: number;
+}
+
+/**
+ * Merges consecutive labels of the same row, so printer languages can send
+ * one label with a quantity instead of repeating it.
+ */
+export const groupPrintSequence = (sequence: number[]): PrintRun[] => {
+  const runs: PrintRun[] = [];
+  sequence.forEach(rowIndex => {
+    const last = runs[runs.length - 1];
+    if (last && last.rowIndex === rowIndex) last.count++;
+    else runs.push({ rowIndex, count: 1 });
+  });
+  return runs;
+};
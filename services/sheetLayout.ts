@@ -0,0 +1,160 @@
+import { SheetDefinition } from '../types';
+
+// Label positions on a printed page, all in mm from the top-left page corner
+
+export interface LabelSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const LETTER = { pageWidth: 215.9, pageHeight: 279.4 };
+const A4 = { pageWidth: 210, pageHeight: 297 };
+
+// Letter sheets are specified in inches by their vendors
+const inch = (value: number) => Math.round(value * 25.4 * 1000) / 1000;
+
+export const SHEET_PRESETS: SheetDefinition[] = [
+  // --- Avery (US Letter) ---
+  { id: 'avery-5160', vendor: 'Avery', name: '5160 Address 1" x 2-5/8" (30)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.1875), labelWidth: inch(2.625), labelHeight: inch(1),
+    pitchX: inch(2.75), pitchY: inch(1), rows: 10, cols: 3 },
+  { id: 'avery-5161', vendor: 'Avery', name: '5161 Address 1" x 4" (20)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.15625), labelWidth: inch(4), labelHeight: inch(1),
+    pitchX: inch(4.1875), pitchY: inch(1), rows: 10, cols: 2 },
+  { id: 'avery-5162', vendor: 'Avery', name: '5162 Address 1-1/3" x 4" (14)', ...LETTER,
+    marginTop: inch(0.8333), marginLeft: inch(0.15625), labelWidth: inch(4), labelHeight: inch(1.3333),
+    pitchX: inch(4.1875), pitchY: inch(1.3333), rows: 7, cols: 2 },
+  { id: 'avery-5163', vendor: 'Avery', name: '5163 Shipping 2" x 4" (10)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.15625), labelWidth: inch(4), labelHeight: inch(2),
+    pitchX: inch(4.1875), pitchY: inch(2), rows: 5, cols: 2 },
+  { id: 'avery-5164', vendor: 'Avery', name: '5164 Shipping 3-1/3" x 4" (6)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.15625), labelWidth: inch(4), labelHeight: inch(3.3333),
+    pitchX: inch(4.1875), pitchY: inch(3.3333), rows: 3, cols: 2 },
+  { id: 'avery-5167', vendor: 'Avery', name: '5167 Return Address 1/2" x 1-3/4" (80)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.28125), labelWidth: inch(1.75), labelHeight: inch(0.5),
+    pitchX: inch(2.0625), pitchY: inch(0.5), rows: 20, cols: 4 },
+
+  // --- Avery (A4) ---
+  { id: 'avery-l7159', vendor: 'Avery', name: 'L7159 63.5 x 33.9 mm (24)', ...A4,
+    marginTop: 12.9, marginLeft: 7.2, labelWidth: 63.5, labelHeight: 33.9, pitchX: 66.04, pitchY: 33.9, rows: 8, cols: 3 },
+  { id: 'avery-l7160', vendor: 'Avery', name: 'L7160 63.5 x 38.1 mm (21)', ...A4,
+    marginTop: 15.15, marginLeft: 7.2, labelWidth: 63.5, labelHeight: 38.1, pitchX: 66.04, pitchY: 38.1, rows: 7, cols: 3 },
+  { id: 'avery-l7161', vendor: 'Avery', name: 'L7161 63.5 x 46.6 mm (18)', ...A4,
+    marginTop: 8.7, marginLeft: 7.2, labelWidth: 63.5, labelHeight: 46.6, pitchX: 66.04, pitchY: 46.6, rows: 6, cols: 3 },
+  { id: 'avery-l7162', vendor: 'Avery', name: 'L7162 99.1 x 33.9 mm (16)', ...A4,
+    marginTop: 12.9, marginLeft: 4.65, labelWidth: 99.1, labelHeight: 33.9, pitchX: 101.6, pitchY: 33.9, rows: 8, cols: 2 },
+  { id: 'avery-l7163', vendor: 'Avery', name: 'L7163 99.1 x 38.1 mm (14)', ...A4,
+    marginTop: 15.15, marginLeft: 4.65, labelWidth: 99.1, labelHeight: 38.1, pitchX: 101.6, pitchY: 38.1, rows: 7, cols: 2 },
+  { id: 'avery-l7165', vendor: 'Avery', name: 'L7165 99.1 x 67.7 mm (8)', ...A4,
+    marginTop: 13.1, marginLeft: 4.65, labelWidth: 99.1, labelHeight: 67.7, pitchX: 101.6, pitchY: 67.7, rows: 4, cols: 2 },
+  { id: 'avery-l7173', vendor: 'Avery', name: 'L7173 99.1 x 57 mm (10)', ...A4,
+    marginTop: 6, marginLeft: 4.65, labelWidth: 99.1, labelHeight: 57, pitchX: 101.6, pitchY: 57, rows: 5, cols: 2 },
+  { id: 'avery-l7651', vendor: 'Avery', name: 'L7651 38.1 x 21.2 mm (65)', ...A4,
+    marginTop: 10.7, marginLeft: 4.75, labelWidth: 38.1, labelHeight: 21.2, pitchX: 40.64, pitchY: 21.2, rows: 13, cols: 5 },
+
+  // --- Herma (A4) ---
+  { id: 'herma-4226', vendor: 'Herma', name: '4226 52.5 x 29.7 mm (40)', ...A4,
+    marginTop: 0, marginLeft: 0, labelWidth: 52.5, labelHeight: 29.7, pitchX: 52.5, pitchY: 29.7, rows: 10, cols: 4 },
+  { id: 'herma-4360', vendor: 'Herma', name: '4360 70 x 36 mm (24)', ...A4,
+    marginTop: 4.5, marginLeft: 0, labelWidth: 70, labelHeight: 36, pitchX: 70, pitchY: 36, rows: 8, cols: 3 },
+  { id: 'herma-4474', vendor: 'Herma', name: '4474 70 x 37 mm (24)', ...A4,
+    marginTop: 0.5, marginLeft: 0, labelWidth: 70, labelHeight: 37, pitchX: 70, pitchY: 37, rows: 8, cols: 3 },
+
+  // --- OnlineLabels (US Letter) ---
+  { id: 'onlinelabels-ol875', vendor: 'OnlineLabels', name: 'OL875 2.625" x 1" (30)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.1875), labelWidth: inch(2.625), labelHeight: inch(1),
+    pitchX: inch(2.75), pitchY: inch(1), rows: 10, cols: 3 },
+  { id: 'onlinelabels-ol125', vendor: 'OnlineLabels', name: 'OL125 4" x 2" (10)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.15625), labelWidth: inch(4), labelHeight: inch(2),
+    pitchX: inch(4.1875), pitchY: inch(2), rows: 5, cols: 2 },
+  { id: 'onlinelabels-ol150', vendor: 'OnlineLabels', name: 'OL150 4" x 1.33" (14)', ...LETTER,
+    marginTop: inch(0.8333), marginLeft: inch(0.15625), labelWidth: inch(4), labelHeight: inch(1.3333),
+    pitchX: inch(4.1875), pitchY: inch(1.3333), rows: 7, cols: 2 },
+  { id: 'onlinelabels-ol25', vendor: 'OnlineLabels', name: 'OL25 1.75" x 0.5" (80)', ...LETTER,
+    marginTop: inch(0.5), marginLeft: inch(0.28125), labelWidth: inch(1.75), labelHeight: inch(0.5),
+    pitchX: inch(2.0625), pitchY: inch(0.5), rows: 20, cols: 4 },
+];
+
+/**
+ * Label positions on one sheet, row by row.
+ */
+export const getSheetSlots = (sheet: SheetDefinition): LabelSlot[] => {
+  const slots: LabelSlot[] = [];
+  for (let r = 0; r < sheet.rows; r++) {
+    for (let c = 0; c < sheet.cols; c++) {
+      slots.push({
+        x: sheet.marginLeft + c * sheet.pitchX,
+        y: sheet.marginTop + r * sheet.pitchY,
+        width: sheet.labelWidth,
+        height: sheet.labelHeight,
+      });
+    }
+  }
+  return slots;
+};
+
+/**
+ * Problems that would make a sheet definition print labels off the page or
+ * on top of each other. Empty when the sheet is usable.
+ */
+export const validateSheet = (sheet: SheetDefinition): string[] => {
+  const errors: string[] = [];
+  const fields: (keyof SheetDefinition)[] = ['pageWidth', 'pageHeight', 'labelWidth', 'labelHeight', 'pitchX', 'pitchY'];
+  if (!sheet.name.trim()) errors.push('Name is required.');
+  if (fields.some(key => !(Number(sheet[key]) > 0))) errors.push('Page size, label size and pitch must be greater than 0.');
+  if (sheet.marginTop < 0 || sheet.marginLeft < 0) errors.push('Margins cannot be negative.');
+  if (!Number.isInteger(sheet.rows) || !Number.isInteger(sheet.cols) || sheet.rows < 1 || sheet.cols < 1) {
+    errors.push('Rows and columns must be whole numbers of at least 1.');
+  }
+  if (errors.length > 0) return errors;
+
+  if (sheet.cols > 1 && sheet.pitchX < sheet.labelWidth) errors.push('Horizontal pitch is smaller than the label width.');
+  if (sheet.rows > 1 && sheet.pitchY < sheet.labelHeight) errors.push('Vertical pitch is smaller than the label height.');
+
+  // Small tolerance for vendor figures rounded to 0.01 mm
+  const right = sheet.marginLeft + (sheet.cols - 1) * sheet.pitchX + sheet.labelWidth;
+  const bottom = sheet.marginTop + (sheet.rows - 1) * sheet.pitchY + sheet.labelHeight;
+  if (right > sheet.pageWidth + 0.5) errors.push(`Labels extend ${(right - sheet.pageWidth).toFixed(1)} mm past the right page edge.`);
+  if (bottom > sheet.pageHeight + 0.5) errors.push(`Labels extend ${(bottom - sheet.pageHeight).toFixed(1)} mm past the bottom page edge.`);
+  return errors;
+};
+
+/**
+ * Reads sheet definitions from a shared JSON file: a single sheet or an array.
+ * Invalid entries are skipped; imported sheets always become custom sheets.
+ */
+export const parseSheetDefinitions = (json: string): SheetDefinition[] => {
+  const parsed = JSON.parse(json);
+  const list: any[] = Array.isArray(parsed) ? parsed : [parsed];
+  const numeric: (keyof SheetDefinition)[] = [
+    'pageWidth', 'pageHeight', 'marginTop', 'marginLeft', 'labelWidth', 'labelHeight', 'pitchX', 'pitchY', 'rows', 'cols',
+  ];
+
+  return list.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const sheet = {
+      id: String(item.id || ''),
+      name: String(item.name || ''),
+      vendor: String(item.vendor || 'Custom'),
+      isCustom: true,
+    } as SheetDefinition;
+    numeric.forEach(key => { (sheet as any)[key] = Number(item[key]); });
+    return validateSheet(sheet).length === 0 ? [sheet] : [];
+  });
+};
+
+// --- Placement ---
+
+/**
+ * Page and position of the nth printed label when the first `skip` positions
+ * of the first sheet are already used.
+ */
+export const getLabelPlacement = (index: number, skip: number, labelsPerPage: number) => {
+  const position = index + skip;
+  return { page: Math.floor(position / labelsPerPage), slot: position % labelsPerPage };
+};
+
+export const countPages = (labelCount: number, skip: number, labelsPerPage: number) =>
+  labelCount > 0 ? Math.ceil((labelCount + skip) / labelsPerPage) : 0;
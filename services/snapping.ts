@@ -0,0 +1,168 @@
+import * as fabric from 'fabric';
+import { MM_TO_PX } from '../constants';
+
+// Snapping while dragging: to the label's edges and centre lines, ruler
+// guides and the safe zone, to other objects' edges and centres (with smart
+// guides showing what matched), and to a physical grid when nothing closer
+// matched.
+
+export interface SnapSettings {
+  objects: boolean; // Label edges, centre lines and other objects
+  grid: boolean;
+  gridSize: number; // mm
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { objects: true, grid: false, gridSize: 1 };
+
+const SNAP_DISTANCE_PX = 6; // On screen, so it feels the same at every zoom
+const GUIDE_COLOR = '#ec4899';
+const GRID_COLOR = '#e4e4e7';
+
+// Ruler guides and the safe zone, in label px
+export interface SnapGuides {
+  x: number[];
+  y: number[];
+  inset: number; // Safe zone inset, 0 when there is none
+}
+
+interface Guides {
+  x: number[]; // Vertical lines, label px
+  y: number[];
+}
+
+/**
+ * Edge and centre lines of an object's bounding box along one axis.
+ */
+const getLines = (rect: fabric.TBBox, axis: 'x' | 'y') => axis === 'x'
+  ? [rect.left, rect.left + rect.width / 2, rect.left + rect.width]
+  : [rect.top, rect.top + rect.height / 2, rect.top + rect.height];
+
+/**
+ * Smallest shift that puts one of `moving` on one of `targets`, and the
+ * targets hit by it. null when nothing is within `threshold`.
+ */
+const findSnap = (moving: number[], targets: number[], threshold: number) => {
+  let best: number | null = null;
+  moving.forEach(m => targets.forEach(t => {
+    const d = t - m;
+    if (Math.abs(d) <= threshold && (best === null || Math.abs(d) < Math.abs(best))) best = d;
+  }));
+  if (best === null) return null;
+  const shift: number = best;
+  const hits = targets.filter(t => moving.some(m => Math.abs(t - (m + shift)) < 0.01));
+  return { shift, hits };
+};
+
+const snapToGrid = (value: number, size: number) => Math.round(value / size) * size - value;
+
+/**
+ * Hooks snapping and guide drawing into an interactive canvas. Settings are
+ * read on every move so they can change without re-attaching. Returns a
+ * function that removes the handlers.
+ */
+export const attachSnapping = (
+  canvas: fabric.Canvas,
+  getSettings: () => SnapSettings,
+  getGuides: () => SnapGuides = () => ({ x: [], y: [], inset: 0 })
+) => {
+  let guides: Guides = { x: [], y: [] };
+
+  const labelSize = () => ({ width: canvas.getWidth() / canvas.getZoom(), height: canvas.getHeight() / canvas.getZoom() });
+
+  const handleMoving = (e: { target: fabric.FabricObject }) => {
+    const target = e.target;
+    const settings = getSettings();
+    guides = { x: [], y: [] };
+    if (!settings.objects && !settings.grid) return;
+
+    const rect = target.getBoundingRect();
+    const threshold = SNAP_DISTANCE_PX / canvas.getZoom();
+    let dx = 0;
+    let dy = 0;
+    let snappedX = false;
+    let snappedY = false;
+
+    if (settings.objects) {
+      const { width, height } = labelSize();
+      const moving = new Set(target instanceof fabric.ActiveSelection ? target.getObjects() : [target]);
+      const others = canvas.getObjects().filter(obj => obj.visible && !moving.has(obj)).map(obj => obj.getBoundingRect());
+      const { x, y, inset } = getGuides();
+      const insetX = inset > 0 ? [inset, width - inset] : [];
+      const insetY = inset > 0 ? [inset, height - inset] : [];
+      const targetsX = [0, width / 2, width, ...insetX, ...x, ...others.flatMap(r => getLines(r, 'x'))];
+      const targetsY = [0, height / 2, height, ...insetY, ...y, ...others.flatMap(r => getLines(r, 'y'))];
+
+      const snapX = findSnap(getLines(rect, 'x'), targetsX, threshold);
+      const snapY = findSnap(getLines(rect, 'y'), targetsY, threshold);
+      if (snapX) { dx = snapX.shift; guides.x = snapX.hits; snappedX = true; }
+      if (snapY) { dy = snapY.shift; guides.y = snapY.hits; snappedY = true; }
+    }
+
+    if (settings.grid && settings.gridSize > 0) {
+      const size = MM_TO_PX(settings.gridSize);
+      if (!snappedX) dx = snapToGrid(rect.left, size);
+      if (!snappedY) dy = snapToGrid(rect.top, size);
+    }
+
+    if (dx || dy) {
+      target.set({ left: target.left + dx, top: target.top + dy });
+      target.setCoords();
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (guides.x.length || guides.y.length) {
+      guides = { x: [], y: [] };
+      canvas.requestRenderAll();
+    }
+  };
+
+  const handleAfterRender = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+    // Exports render through the same event on their own context
+    if (ctx !== canvas.getContext()) return;
+    const settings = getSettings();
+    const { width, height } = labelSize();
+    const v = canvas.viewportTransform;
+    const zoom = canvas.getZoom();
+
+    ctx.save();
+    ctx.transform(v[0], v[1], v[2], v[3], v[4], v[5]);
+
+    if (settings.grid && settings.gridSize > 0) {
+      // Multiplied over the label so it darkens paper but never covers content
+      const size = MM_TO_PX(settings.gridSize);
+      if (size * zoom >= 4) {
+        ctx.globalCompositeOperation = 'multiply';
+        ctx.strokeStyle = GRID_COLOR;
+        ctx.lineWidth = 1 / zoom;
+        ctx.beginPath();
+        for (let x = size; x < width; x += size) { ctx.moveTo(x, 0); ctx.lineTo(x, height); }
+        for (let y = size; y < height; y += size) { ctx.moveTo(0, y); ctx.lineTo(width, y); }
+        ctx.stroke();
+        ctx.globalCompositeOperation = 'source-over';
+      }
+    }
+
+    if (guides.x.length || guides.y.length) {
+      ctx.strokeStyle = GUIDE_COLOR;
+      ctx.lineWidth = 1 / zoom;
+      ctx.setLineDash([4 / zoom, 3 / zoom]);
+      ctx.beginPath();
+      guides.x.forEach(x => { ctx.moveTo(x, 0); ctx.lineTo(x, height); });
+      guides.y.forEach(y => { ctx.moveTo(0, y); ctx.lineTo(width, y); });
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  };
+
+  canvas.on('object:moving', handleMoving);
+  canvas.on('mouse:up', handleMouseUp);
+  canvas.on('after:render', handleAfterRender);
+
+  return () => {
+    canvas.off('object:moving', handleMoving);
+    canvas.off('mouse:up', handleMouseUp);
+    canvas.off('after:render', handleAfterRender);
+  };
+};
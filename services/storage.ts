@@ -1,7 +1,11 @@
-import { LabelTemplate, SavedTemplateMetadata } from '../types';
+import { LabelTemplate, SavedTemplateMetadata, SheetDefinition, PrinterProfile, CustomFont } from '../types';
 
 const INDEX_KEY = 'labelcraft_library_index';
 const TEMPLATE_PREFIX = 'labelcraft_template_';
+const SHEETS_KEY = 'labelcraft_custom_sheets';
+const PROFILES_KEY = 'labelcraft_printer_profiles';
+const ACTIVE_PROFILE_KEY = 'labelcraft_active_printer_profile';
+const FONTS_KEY = 'labelcraft_custom_fonts';
 
 // Helper to generate simple ID
 const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
@@ -57,3 +61,105 @@ export const deleteTemplateFromBrowser = (id: string) => {
   localStorage.setItem(INDEX_KEY, JSON.stringify(newIndex));
   localStorage.removeItem(`${TEMPLATE_PREFIX}${id}`);
 };
+
+// --- Custom Label Sheets ---
+
+export const getCustomSheets = (): SheetDefinition[] => {
+  try {
+    const sheetsStr = localStorage.getItem(SHEETS_KEY);
+    return sheetsStr ? JSON.parse(sheetsStr) : [];
+  } catch (e) {
+    console.error("Failed to load custom sheets", e);
+    return [];
+  }
+};
+
+// Adds the sheet, or replaces the stored sheet with the same id
+export const saveCustomSheet = (sheet: SheetDefinition): SheetDefinition => {
+  const saved: SheetDefinition = { ...sheet, id: sheet.id || `custom-${generateId()}`, isCustom: true };
+  const sheets = getCustomSheets().filter(s => s.id !== saved.id);
+
+  try {
+    localStorage.setItem(SHEETS_KEY, JSON.stringify([...sheets, saved]));
+    return saved;
+  } catch (e) {
+    console.error("Storage limit reached or error saving", e);
+    throw new Error("Failed to save sheet. Local storage might be full.");
+  }
+};
+
+export const deleteCustomSheet = (id: string) => {
+  const sheets = getCustomSheets().filter(s => s.id !== id);
+  localStorage.setItem(SHEETS_KEY, JSON.stringify(sheets));
+};
+
+// --- Printer Calibration Profiles ---
+
+export const getPrinterProfiles = (): PrinterProfile[] => {
+  try {
+    const profilesStr = localStorage.getItem(PROFILES_KEY);
+    return profilesStr ? JSON.parse(profilesStr) : [];
+  } catch (e) {
+    console.error("Failed to load printer profiles", e);
+    return [];
+  }
+};
+
+// Adds the profile, or replaces the stored profile with the same id
+export const savePrinterProfile = (profile: PrinterProfile): PrinterProfile => {
+  const saved: PrinterProfile = { ...profile, id: profile.id || `printer-${generateId()}` };
+  const profiles = getPrinterProfiles().filter(p => p.id !== saved.id);
+
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify([...profiles, saved]));
+    return saved;
+  } catch (e) {
+    console.error("Storage limit reached or error saving", e);
+    throw new Error("Failed to save printer profile. Local storage might be full.");
+  }
+};
+
+export const deletePrinterProfile = (id: string) => {
+  const profiles = getPrinterProfiles().filter(p => p.id !== id);
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  if (getActivePrinterProfileId() === id) setActivePrinterProfileId(null);
+};
+
+// The profile last used for printing, so it stays selected between sessions
+export const getActivePrinterProfileId = (): string | null => localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+export const setActivePrinterProfileId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+};
+
+// --- Custom Fonts ---
+
+export const getCustomFonts = (): CustomFont[] => {
+  try {
+    const fontsStr = localStorage.getItem(FONTS_KEY);
+    return fontsStr ? JSON.parse(fontsStr) : [];
+  } catch (e) {
+    console.error("Failed to load custom fonts", e);
+    return [];
+  }
+};
+
+// Adds the font, or replaces the stored font with the same family
+export const saveCustomFont = (font: CustomFont): CustomFont => {
+  const saved: CustomFont = { ...font, id: font.id || `font-${generateId()}` };
+  const fonts = getCustomFonts().filter(f => f.id !== saved.id && f.family !== saved.family);
+
+  try {
+    localStorage.setItem(FONTS_KEY, JSON.stringify([...fonts, saved]));
+    return saved;
+  } catch (e) {
+    console.error("Storage limit reached or error saving", e);
+    throw new Error("Failed to save font. Local storage might be full.");
+  }
+};
+
+export const deleteCustomFont = (id: string) => {
+  const fonts = getCustomFonts().filter(f => f.id !== id);
+  localStorage.setItem(FONTS_KEY, JSON.stringify(fonts));
+};
@@ -0,0 +1,209 @@
+import * as fabric from 'fabric';
+import { TextCase, applyTextCase, truncateStyledText } from './textStyle';
+
+// Smallest frame the top/bottom handles can make, in px
+const MIN_FRAME_HEIGHT = 8;
+const SHRINK_STEP = 0.5; // px of font size
+const ELLIPSIS = '…';
+
+/**
+ * Drags the top or bottom handle to change the frame height instead of
+ * scaling the text. Same shape as fabric's changeWidth.
+ */
+const changeFrameHeight: fabric.TransformActionHandler = (eventData, transform, x, y) => {
+  const target = transform.target as TextFrame;
+  const local = fabric.controlsUtils.getLocalPoint(transform, transform.originX, transform.originY, x, y);
+  // Only from the dragged side of the frame
+  if ((transform.originY === 'top' && local.y <= 0) || (transform.originY === 'bottom' && local.y >= 0)) return false;
+
+  const oldHeight = target.frameHeight;
+  target.set('frameHeight', Math.max(MIN_FRAME_HEIGHT, Math.abs(local.y) / target.scaleY));
+  target.initDimensions();
+  return oldHeight !== target.frameHeight;
+};
+
+const resizeFrameHeight = fabric.controlsUtils.wrapWithFireEvent(
+  'resizing',
+  fabric.controlsUtils.wrapWithFixedAnchor(changeFrameHeight)
+);
+
+/**
+ * Fixed-size text box for variable data. Text wraps at the frame width and is
+ * clipped at the frame height. At render time `fitToFrame` shrinks the font
+ * towards `minFontSize` and then cuts the text, with an ellipsis, to what fits.
+ */
+export class TextFrame extends fabric.Textbox {
+  static type = 'TextFrame';
+
+  declare dataKey?: string;
+  declare frameHeight: number; // px, independent of the text height
+  declare maxLines: number; // 0 = as many as fit
+  declare shrinkToFit: boolean;
+  declare minFontSize: number; // Floor for shrinking; fontSize is the ceiling
+  declare ellipsis: boolean;
+  declare textCase?: TextCase;
+
+  static ownDefaults = {
+    frameHeight: 60,
+    maxLines: 0,
+    shrinkToFit: true,
+    minFontSize: 8,
+    ellipsis: true,
+    objectCaching: false,
+    lockScalingFlip: true,
+  };
+
+  static getDefaults(): Record<string, any> {
+    return { ...super.getDefaults(), ...TextFrame.ownDefaults };
+  }
+
+  constructor(text: string, options: Record<string, any> = {}) {
+    super(text, { ...TextFrame.ownDefaults, ...options });
+    // Side handles resize the frame; corner scaling would distort the text
+    this.controls = {
+      ...this.controls,
+      mt: new fabric.Control({ x: 0, y: -0.5, actionHandler: resizeFrameHeight, cursorStyleHandler: fabric.controlsUtils.scaleCursorStyleHandler, actionName: 'resizing' }),
+      mb: new fabric.Control({ x: 0, y: 0.5, actionHandler: resizeFrameHeight, cursorStyleHandler: fabric.controlsUtils.scaleCursorStyleHandler, actionName: 'resizing' }),
+    };
+    this.setControlsVisibility({ tl: false, tr: false, bl: false, br: false });
+  }
+
+  // Draws the case transform, as LabelText does
+  graphemeSplit(value: string): string[] {
+    return applyTextCase(super.graphemeSplit(value), this.textCase || 'none');
+  }
+
+  initDimensions() {
+    super.initDimensions();
+    if (this.initialized) this.height = this.frameHeight;
+  }
+
+  /**
+   * Sets the frame size in unscaled px.
+   */
+  setFrameSize(width?: number, height?: number) {
+    if (width !== undefined) this.set('width', Math.max(1, width));
+    if (height !== undefined) this.set('frameHeight', Math.max(MIN_FRAME_HEIGHT, height));
+    this.initDimensions();
+    this.setCoords();
+  }
+
+  // Height of the first `count` wrapped lines, measured the way fabric does
+  private getLinesHeight(count: number) {
+    let height = 0;
+    for (let i = 0; i < count; i++) {
+      const lineHeight = this.getHeightOfLine(i);
+      height += i === count - 1 ? lineHeight / this.lineHeight : lineHeight;
+    }
+    return height;
+  }
+
+  // Lines that fit the frame height and the line limit at the current size
+  private getFittingLineCount() {
+    const limit = this.maxLines > 0 ? Math.min(this.maxLines, this.textLines.length) : this.textLines.length;
+    let count = 0;
+    while (count < limit && this.getLinesHeight(count + 1) <= this.frameHeight + 0.01) count++;
+    return Math.max(1, count);
+  }
+
+  private fits(width: number) {
+    this.width = width;
+    this.initDimensions();
+    return this.width <= width && this.getFittingLineCount() === this.textLines.length &&
+      this.getLinesHeight(this.textLines.length) <= this.frameHeight + 0.01;
+  }
+
+  /**
+   * Fits the current text into the frame: the largest font size between
+   * `minFontSize` and `fontSize` that shows all of it, otherwise the smallest
+   * size with the text cut after the last line that fits. Mutates the text and
+   * font size, so it runs on rendered labels only, never on the template.
+   */
+  fitToFrame() {
+    const width = this.width;
+    const maxSize = this.fontSize;
+    const minSize = this.shrinkToFit ? Math.min(this.minFontSize, maxSize) : maxSize;
+
+    if (!this.fits(width) && minSize < maxSize) {
+      // Smallest step k (size maxSize - k * SHRINK_STEP, floored at minSize) that fits
+      const steps = Math.ceil((maxSize - minSize) / SHRINK_STEP);
+      const sizeAt = (k: number) => Math.max(minSize, maxSize - k * SHRINK_STEP);
+      let low = 1;
+      let high = steps;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        this.fontSize = sizeAt(mid);
+        if (this.fits(width)) high = mid;
+        else low = mid + 1;
+      }
+      this.fontSize = sizeAt(low);
+    }
+
+    if (this.fits(width)) return;
+
+    // Words longer than the frame break between characters
+    if (this.width > width) {
+      this.splitByGrapheme = true;
+      if (this.fits(width)) return;
+    }
+
+    this.truncate(width);
+  }
+
+  // Characters of the text (graphemes, line breaks counted once) shown on the
+  // first `count` wrapped lines. Consecutive wrapped lines are separated by a
+  // line break, or by the one space or tab fabric drops at a soft wrap.
+  private getShownCharCount(count: number) {
+    const graphemes = fabric.util.string.graphemeSplit(this.text);
+    let index = 0;
+    for (let i = 0; i < count && i < this._textLines.length; i++) {
+      if (i > 0 && (graphemes[index] === '\n' || (!this.splitByGrapheme && this._reSpaceAndTab.test(graphemes[index] || '')))) index++;
+      index += this._textLines[i].length;
+    }
+    return index;
+  }
+
+  // Cuts the text in source coordinates, so soft wraps stay soft and
+  // per-character styles stay on their characters
+  private truncate(width: number) {
+    const count = this.getFittingLineCount();
+    const suffix = this.ellipsis ? ELLIPSIS : '';
+
+    const apply = (chars: number) => {
+      const kept = truncateStyledText(this, chars, suffix);
+      this.width = width;
+      this.initDimensions();
+      return kept;
+    };
+
+    let kept = apply(this.getShownCharCount(count));
+    // Drop characters until the ellipsis fits on the last kept line
+    while (this.textLines.length > count && kept > 0) {
+      kept = apply(kept - 1);
+    }
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const w = this.width;
+    const h = this.height;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(-w / 2, -h / 2, w, h);
+    ctx.clip();
+    super._render(ctx);
+    ctx.restore();
+
+    // Frame outline in the editor only, so empty space in the frame is visible
+    if (this.canvas instanceof fabric.Canvas) {
+      ctx.save();
+      ctx.strokeStyle = '#94a3b8';
+      ctx.lineWidth = 1 / (this.canvas.getZoom() * Math.abs(this.scaleX));
+      ctx.setLineDash([4 * ctx.lineWidth, 3 * ctx.lineWidth]);
+      ctx.strokeRect(-w / 2, -h / 2, w, h);
+      ctx.restore();
+    }
+  }
+}
+
+fabric.classRegistry.setClass(TextFrame);
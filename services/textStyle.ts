@@ -0,0 +1,210 @@
+import * as fabric from 'fabric';
+
+// Text styling beyond fabric's own properties: case transforms, and bold,
+// italic and underline applied to the selected characters while editing or to
+// the whole object otherwise. Also keeps per-character styles attached to the
+// right characters when data is substituted into the text. LabelText and
+// TextFrame draw the case transform; here it is only stored and baked.
+
+export type TextCase = 'none' | 'upper' | 'lower' | 'title';
+
+export const TEXT_CASES: { value: TextCase; label: string }[] = [
+  { value: 'none', label: 'As typed' },
+  { value: 'upper', label: 'UPPERCASE' },
+  { value: 'lower', label: 'lowercase' },
+  { value: 'title', label: 'Title Case' },
+];
+
+// Text objects that draw with a case transform (LabelText and TextFrame)
+export interface CasedText extends fabric.IText {
+  textCase?: TextCase;
+}
+
+export type CharStyleKey = 'bold' | 'italic' | 'underline';
+export type CharStyles = Record<CharStyleKey, boolean>;
+
+type StyleDeclaration = Partial<fabric.TextStyleDeclaration>;
+
+interface CharStyleProp {
+  prop: 'fontWeight' | 'fontStyle' | 'underline';
+  on: string | boolean;
+  off: string | boolean;
+}
+
+const CHAR_STYLE_PROPS: Record<CharStyleKey, CharStyleProp> = {
+  bold: { prop: 'fontWeight', on: 'bold', off: 'normal' },
+  italic: { prop: 'fontStyle', on: 'italic', off: 'normal' },
+  underline: { prop: 'underline', on: true, off: false },
+};
+
+const isCharStyleOn = (key: CharStyleKey, value: unknown) => key === 'bold'
+  ? value === 'bold' || Number(value) >= 600
+  : key === 'italic' ? value === 'italic' || value === 'oblique' : !!value;
+
+export const getTextCase = (obj: CasedText): TextCase => obj.textCase || 'none';
+
+/**
+ * Changes the case of each grapheme on its own, so the count stays the same.
+ * Title case capitalizes the first letter of every word and leaves the rest.
+ */
+export const applyTextCase = (graphemes: string[], textCase: TextCase): string[] => {
+  switch (textCase) {
+    case 'upper': return graphemes.map(g => g.toLocaleUpperCase());
+    case 'lower': return graphemes.map(g => g.toLocaleLowerCase());
+    case 'title': return graphemes.map((g, i) => i === 0 || !/[\p{L}\p{N}'’]/u.test(graphemes[i - 1]) ? g.toLocaleUpperCase() : g);
+    default: return graphemes;
+  }
+};
+
+export const updateTextCase = (obj: CasedText, textCase: TextCase) => {
+  obj.textCase = textCase;
+  obj.initDimensions();
+  obj.setCoords();
+  obj.canvas?.requestRenderAll();
+};
+
+// --- Character Styles ---
+
+const getSelectionRange = (obj: fabric.IText) =>
+  obj.isEditing && obj.selectionStart !== obj.selectionEnd ? { start: obj.selectionStart, end: obj.selectionEnd } : null;
+
+/**
+ * Bold, italic and underline of the selected characters while editing (on
+ * only when every selected character has it), otherwise of the object.
+ */
+export const getCharStyles = (obj: fabric.IText): CharStyles => {
+  const range = getSelectionRange(obj);
+  const keys = Object.keys(CHAR_STYLE_PROPS) as CharStyleKey[];
+  const styles = {} as CharStyles;
+  keys.forEach(key => {
+    const { prop } = CHAR_STYLE_PROPS[key];
+    styles[key] = range
+      ? obj.getSelectionStyles(range.start, range.end, true).every(style => isCharStyleOn(key, (style as StyleDeclaration)[prop]))
+      : isCharStyleOn(key, obj[prop]);
+  });
+  return styles;
+};
+
+/**
+ * Turns a style on or off for the selected characters while editing. Without
+ * a selection it applies to the whole object and drops per-character
+ * overrides of the same property, so every character follows it.
+ */
+export const setCharStyle = (obj: fabric.IText, key: CharStyleKey, on: boolean) => {
+  const { prop, on: onValue, off: offValue } = CHAR_STYLE_PROPS[key];
+  const value = on ? onValue : offValue;
+  const range = getSelectionRange(obj);
+  if (range) {
+    obj.setSelectionStyles({ [prop]: value }, range.start, range.end);
+  } else {
+    obj.set(prop, value);
+    obj.removeStyle(prop);
+  }
+  obj.initDimensions();
+  obj.setCoords();
+  obj.canvas?.requestRenderAll();
+};
+
+// --- Styled Substitution ---
+
+// The parts of a text object substitution and truncation read and write
+interface StyledText {
+  text: string;
+  styles: fabric.TextStyle;
+  set(props: { text: string; styles: fabric.TextStyle }): unknown;
+}
+
+// One character of the text with its own style; line breaks are entries of '\n'
+interface StyledChar {
+  text: string;
+  style?: StyleDeclaration;
+  offset: number; // UTF-16 offset in the source text
+}
+
+const readStyledChars = (obj: StyledText): StyledChar[] => {
+  const chars: StyledChar[] = [];
+  let offset = 0;
+  (obj.text || '').split('\n').forEach((line, lineIndex) => {
+    if (lineIndex > 0) chars.push({ text: '\n', offset: offset++ });
+    fabric.util.string.graphemeSplit(line).forEach((text, charIndex) => {
+      chars.push({ text, style: obj.styles[lineIndex]?.[charIndex], offset });
+      offset += text.length;
+    });
+  });
+  return chars;
+};
+
+const writeStyledChars = (obj: StyledText, chars: StyledChar[]) => {
+  const styles: Record<number, Record<number, StyleDeclaration>> = {};
+  let text = '';
+  let line = 0;
+  let column = 0;
+  chars.forEach(char => {
+    if (char.text === '\n') {
+      text += '\n';
+      line++;
+      column = 0;
+      return;
+    }
+    // A case change can turn one grapheme into several (ß -> SS)
+    fabric.util.string.graphemeSplit(char.text).forEach(grapheme => {
+      if (char.style && Object.keys(char.style).length > 0) {
+        (styles[line] ??= {})[column] = { ...char.style };
+      }
+      text += grapheme;
+      column++;
+    });
+  });
+  obj.set({ text, styles });
+};
+
+/**
+ * Replaces ranges of the text (UTF-16 offsets, in order, not overlapping).
+ * Characters outside them keep their styles; each inserted value takes the
+ * style of the first character it replaces, so a bold {{name}} prints bold.
+ */
+export const replaceStyledText = (obj: fabric.IText, replacements: { start: number; end: number; value: string }[]) => {
+  const source = readStyledChars(obj);
+  const result: StyledChar[] = [];
+  let index = 0;
+
+  replacements.forEach(({ start, end, value }) => {
+    while (index < source.length && source[index].offset < start) result.push(source[index++]);
+    const style = source[index]?.style;
+    value.split(/\r?\n/).forEach((line, i) => {
+      if (i > 0) result.push({ text: '\n', offset: start });
+      fabric.util.string.graphemeSplit(line).forEach(text => result.push({ text, style, offset: start }));
+    });
+    while (index < source.length && source[index].offset < end) index++;
+  });
+
+  writeStyledChars(obj, [...result, ...source.slice(index)]);
+};
+
+/**
+ * Keeps the first `count` characters (graphemes, a line break counts as one)
+ * with their styles, drops trailing whitespace and appends `suffix` in the
+ * style of the last kept character. Returns how many characters were kept.
+ */
+export const truncateStyledText = (obj: StyledText, count: number, suffix: string) => {
+  const chars = readStyledChars(obj).slice(0, Math.max(0, count));
+  while (chars.length > 0 && /^\s+$/.test(chars[chars.length - 1].text)) chars.pop();
+  const kept = chars.length;
+  const last = chars[kept - 1];
+  if (suffix) chars.push({ text: suffix, style: last?.style, offset: last ? last.offset + last.text.length : 0 });
+  writeStyledChars(obj, chars);
+  return kept;
+};
+
+/**
+ * Writes the case transform into the text itself, for output paths that read
+ * the text rather than fabric's rendered graphemes.
+ */
+export const bakeTextCase = (obj: CasedText) => {
+  const textCase = getTextCase(obj);
+  if (textCase === 'none') return;
+  const chars = readStyledChars(obj);
+  const cased = applyTextCase(chars.map(char => char.text), textCase);
+  obj.textCase = 'none';
+  writeStyledChars(obj, chars.map((char, i) => ({ ...char, text: cased[i] })));
+};
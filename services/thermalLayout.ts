@@ -0,0 +1,358 @@
+import * as fabric from 'fabric';
+import { DPI, MM_TO_PX } from '../constants';
+import { BarcodeFormat, MatrixCodeType } from '../types';
+import { CodeSymbol } from './codeSymbol';
+import { getBarHeight, getCodeKind, getCodeQuietZone, getEditorCodeValue, getModuleSize } from './codeGeometry';
+import { getBarcodeFormat, prepareBarcodeValue } from './barcodeSymbology';
+import { getMatrixType } from './matrixCodes';
+import { MonoBitmap, renderObjectBitmap } from './monoBitmap';
+
+// Converts a label canvas into printer-neutral elements measured in printer
+// dots, shared by the ZPL, TSPL and EPL writers. Each element keeps its
+// source object so a writer can fall back to a bitmap for anything its
+// command language can't express.
+
+export type PrinterDpi = 203 | 300 | 600;
+export const PRINTER_DPI_OPTIONS: PrinterDpi[] = [203, 300, 600];
+
+export type Rotation = 0 | 90 | 180 | 270; // Clockwise, like fabric angles
+
+export interface DotRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ElementBase {
+  object: fabric.FabricObject;
+  bounds: DotRect; // Axis-aligned box on the label
+}
+
+export interface TextElement extends ElementBase {
+  kind: 'text';
+  rotation: Rotation;
+  origin: { x: number; y: number }; // Top-left corner of the text before rotation
+  lines: string[];
+  fontHeight: number;
+  fontWidth: number;
+  linePitch: number; // Baseline to baseline
+  blockWidth: number; // Along the text direction
+  align: 'left' | 'center' | 'right';
+  bold: boolean;
+  reverse: boolean; // Light text meant to knock out of a dark background
+}
+
+export interface BarcodeElement extends ElementBase {
+  kind: 'barcode';
+  rotation: Rotation;
+  origin: { x: number; y: number }; // Top-left of the bars before rotation, quiet zone excluded
+  format: BarcodeFormat;
+  value: string; // Including the check digit
+  module: number; // Narrow bar width
+  height: number; // Bar height
+  showText: boolean;
+}
+
+export interface QrElement extends ElementBase {
+  kind: 'qr';
+  rotation: Rotation;
+  origin: { x: number; y: number };
+  value: string;
+  module: number;
+}
+
+export interface MatrixElement extends ElementBase {
+  kind: 'matrix';
+  rotation: Rotation;
+  origin: { x: number; y: number };
+  matrixType: MatrixCodeType;
+  value: string;
+  module: number;
+  columns: number; // PDF417 data columns, 0 = automatic
+  shape: 'square' | 'rectangle';
+}
+
+export interface BoxElement extends ElementBase {
+  kind: 'box';
+  thickness: number; // Equal to the shorter side when filled
+  color: 'black' | 'white';
+  radius: number;
+}
+
+export interface EllipseElement extends ElementBase {
+  kind: 'ellipse';
+  thickness: number;
+  color: 'black' | 'white';
+}
+
+export interface LineElement extends ElementBase {
+  kind: 'line'; // Diagonal; straight lines become boxes
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  thickness: number;
+}
+
+export interface BitmapElement extends ElementBase {
+  kind: 'bitmap';
+  bitmap: MonoBitmap;
+}
+
+export type ThermalElement =
+  TextElement | BarcodeElement | QrElement | MatrixElement | BoxElement | EllipseElement | LineElement | BitmapElement;
+
+export interface ThermalLabel {
+  width: number; // dots
+  height: number;
+  elements: ThermalElement[];
+}
+
+const TEXT_TYPES = ['i-text', 'text', 'textbox', 'textframe'];
+
+export const mmToDots = (mm: number, dpi: PrinterDpi) => Math.round(mm * dpi / 25.4);
+
+/**
+ * Moves a point along the rotated axes of an element: `along` in the
+ * reading direction, `down` towards the next line.
+ */
+export const offsetRotated = (point: { x: number; y: number }, rotation: Rotation, along: number, down: number) => {
+  const [ux, uy, dx, dy] = {
+    0: [1, 0, 0, 1],
+    90: [0, 1, -1, 0],
+    180: [-1, 0, 0, -1],
+    270: [0, -1, 1, 0],
+  }[rotation];
+  return { x: Math.round(point.x + ux * along + dx * down), y: Math.round(point.y + uy * along + dy * down) };
+};
+
+// --- Helpers ---
+
+const getRotation = (angle: number): Rotation | null => {
+  const normalized = ((angle % 360) + 360) % 360;
+  const quarter = Math.round(normalized / 90) % 4;
+  return Math.abs(normalized - quarter * 90) < 0.5 || Math.abs(normalized - 360) < 0.5 ? (quarter * 90) as Rotation : null;
+};
+
+// Luminance of a color composited over white paper, 0-255
+const getLuminance = (color: unknown): number | null => {
+  if (typeof color !== 'string' || color === '' || color === 'transparent') return null;
+  const [r, g, b, a] = new fabric.Color(color).getSource();
+  return (r * 0.299 + g * 0.587 + b * 0.114) * a + 255 * (1 - a);
+};
+
+const isDark = (color: unknown) => {
+  const luminance = getLuminance(color);
+  return luminance !== null && luminance < 128;
+};
+
+// Effects no printer language has a native equivalent for
+const hasEffects = (obj: fabric.FabricObject) =>
+  !!obj.shadow || obj.opacity < 1 || !!obj.clipPath || !!obj.skewX || !!obj.skewY ||
+  (obj.globalCompositeOperation && obj.globalCompositeOperation !== 'source-over') ||
+  (obj.fill !== null && obj.fill !== undefined && typeof obj.fill !== 'string') ||
+  (obj.stroke !== null && obj.stroke !== undefined && typeof obj.stroke !== 'string');
+
+const toDotRect = (rect: { left: number; top: number; width: number; height: number }, dotsPerPx: number): DotRect => ({
+  x: Math.round(rect.left * dotsPerPx),
+  y: Math.round(rect.top * dotsPerPx),
+  width: Math.round(rect.width * dotsPerPx),
+  height: Math.round(rect.height * dotsPerPx),
+});
+
+// Label position of an object-local point (origin at the object's centre)
+const toLabelPoint = (obj: fabric.FabricObject, x: number, y: number, dotsPerPx: number) => {
+  const p = new fabric.Point(x, y).transform(obj.calcTransformMatrix());
+  return { x: Math.round(p.x * dotsPerPx), y: Math.round(p.y * dotsPerPx) };
+};
+
+// Axis-aligned label box of an object-local rectangle
+const toLabelRect = (obj: fabric.FabricObject, x: number, y: number, w: number, h: number, dotsPerPx: number): DotRect => {
+  const corners = [[x, y], [x + w, y], [x, y + h], [x + w, y + h]].map(([px, py]) => toLabelPoint(obj, px, py, dotsPerPx));
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return { x: left, y: top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+};
+
+// --- Element Builders ---
+
+const buildText = (obj: fabric.Text, dotsPerPx: number): ThermalElement | null => {
+  const rotation = getRotation(obj.angle);
+  const plain = rotation !== null && !obj.flipX && !obj.flipY && obj.isEmptyStyles() && !obj.charSpacing && !obj.path &&
+    !(obj.stroke && obj.strokeWidth > 0) && !obj.textBackgroundColor && !obj.backgroundColor &&
+    !obj.underline && !obj.linethrough && !obj.overline && obj.textAlign !== 'justify';
+  if (!plain || getLuminance(obj.fill) === null) return null;
+
+  const scaleX = Math.abs(obj.scaleX);
+  const scaleY = Math.abs(obj.scaleY);
+  return {
+    kind: 'text',
+    object: obj,
+    bounds: toDotRect(obj.getBoundingRect(), dotsPerPx),
+    rotation: rotation!,
+    origin: toLabelPoint(obj, -obj.width / 2, -obj.height / 2, dotsPerPx),
+    lines: obj.textLines.map(line => String(line)),
+    fontHeight: Math.max(1, Math.round(obj.fontSize * scaleY * dotsPerPx)),
+    fontWidth: Math.max(1, Math.round(obj.fontSize * scaleX * dotsPerPx)),
+    linePitch: Math.round(obj.getHeightOfLine(0) * scaleY * dotsPerPx),
+    blockWidth: Math.round(obj.width * scaleX * dotsPerPx),
+    align: obj.textAlign === 'center' ? 'center' : obj.textAlign === 'right' ? 'right' : 'left',
+    bold: obj.fontWeight === 'bold' || Number(obj.fontWeight) >= 600,
+    reverse: !isDark(obj.fill),
+  };
+};
+
+const buildCode = (obj: CodeSymbol, dpi: PrinterDpi, dotsPerPx: number): ThermalElement | null => {
+  const rotation = getRotation(obj.angle);
+  const layout = obj.getCodeLayout();
+  // Invalid values print as the on-screen error box, never as a scannable code
+  if (rotation === null || !layout || obj.flipX || obj.flipY) return null;
+
+  const kind = getCodeKind(obj);
+  const value = obj.codeValue ?? getEditorCodeValue(obj);
+  const module = Math.max(1, mmToDots(getModuleSize(obj), dpi));
+  // Printers add no quiet zone of their own, so place the symbol inside ours
+  const quiet = getCodeQuietZone(obj) * MM_TO_PX(getModuleSize(obj));
+  const symbolWidth = layout.width - quiet * 2;
+  const symbolHeight = kind === 'barcode' ? layout.bars.reduce((h, bar) => Math.max(h, bar.y + bar.h), 0) : layout.height - quiet * 2;
+  const left = -obj.width / 2 + quiet;
+  const top = -obj.height / 2 + (kind === 'barcode' ? 0 : quiet);
+  const base = {
+    object: obj,
+    bounds: toLabelRect(obj, left, top, symbolWidth, symbolHeight, dotsPerPx),
+    rotation: rotation,
+    origin: toLabelPoint(obj, left, top, dotsPerPx),
+    module,
+  };
+
+  if (kind === 'barcode') {
+    const format = getBarcodeFormat(obj);
+    const prepared = prepareBarcodeValue(format, value);
+    if (prepared.error) return null;
+    return {
+      ...base,
+      kind: 'barcode',
+      format,
+      value: prepared.value,
+      height: Math.max(1, mmToDots(getBarHeight(obj), dpi)),
+      showText: obj.showText !== false,
+    };
+  }
+  if (kind === 'qr') {
+    return { ...base, kind: 'qr', value };
+  }
+  return {
+    ...base,
+    kind: 'matrix',
+    matrixType: getMatrixType(obj),
+    value,
+    columns: obj.codeColumns || 0,
+    shape: obj.codeShape === 'rectangle' ? 'rectangle' : 'square',
+  };
+};
+
+const buildShape = (obj: fabric.FabricObject, dotsPerPx: number): ThermalElement[] | null => {
+  const rotation = getRotation(obj.angle);
+  if (rotation === null) return null;
+
+  const bounds = toDotRect(obj.getBoundingRect(), dotsPerPx);
+  const scale = obj.strokeUniform ? 1 : (Math.abs(obj.scaleX) + Math.abs(obj.scaleY)) / 2;
+  const stroke = obj.stroke && obj.strokeWidth > 0 && getLuminance(obj.stroke) !== null
+    ? { thickness: Math.max(1, Math.round(obj.strokeWidth * scale * dotsPerPx)), color: isDark(obj.stroke) ? 'black' as const : 'white' as const }
+    : null;
+  const fill = getLuminance(obj.fill) !== null ? (isDark(obj.fill) ? 'black' as const : 'white' as const) : null;
+  if (obj.strokeDashArray && obj.strokeDashArray.length > 0 && stroke) return null;
+
+  if (obj.type === 'rect') {
+    const rect = obj as fabric.Rect;
+    const radius = Math.round((rect.rx || 0) * Math.abs(rect.scaleX) * dotsPerPx);
+    const elements: ThermalElement[] = [];
+    if (fill) elements.push({ kind: 'box', object: obj, bounds, thickness: Math.min(bounds.width, bounds.height), color: fill, radius });
+    if (stroke && stroke.color !== fill) elements.push({ kind: 'box', object: obj, bounds, thickness: stroke.thickness, color: stroke.color, radius });
+    return elements;
+  }
+
+  if (obj.type === 'circle' || obj.type === 'ellipse') {
+    if (obj.type === 'circle') {
+      const circle = obj as fabric.Circle;
+      if (circle.startAngle !== 0 || circle.endAngle !== 360) return null;
+    }
+    const elements: ThermalElement[] = [];
+    if (fill) elements.push({ kind: 'ellipse', object: obj, bounds, thickness: Math.ceil(Math.min(bounds.width, bounds.height) / 2), color: fill });
+    if (stroke && stroke.color !== fill) elements.push({ kind: 'ellipse', object: obj, bounds, thickness: stroke.thickness, color: stroke.color });
+    return elements;
+  }
+
+  if (obj.type === 'line') {
+    if (!stroke || stroke.color !== 'black') return stroke ? null : [];
+    const line = obj as fabric.Line;
+    const { x1, y1, x2, y2 } = line.calcLinePoints();
+    const from = toLabelPoint(obj, x1, y1, dotsPerPx);
+    const to = toLabelPoint(obj, x2, y2, dotsPerPx);
+    const half = stroke.thickness / 2;
+    // Straight lines print as thin filled boxes
+    if (from.x === to.x || from.y === to.y) {
+      const horizontal = from.y === to.y;
+      const box: DotRect = horizontal
+        ? { x: Math.min(from.x, to.x), y: Math.round(from.y - half), width: Math.abs(to.x - from.x), height: stroke.thickness }
+        : { x: Math.round(from.x - half), y: Math.min(from.y, to.y), width: stroke.thickness, height: Math.abs(to.y - from.y) };
+      return [{ kind: 'box', object: obj, bounds: box, thickness: stroke.thickness, color: 'black', radius: 0 }];
+    }
+    return [{ kind: 'line', object: obj, bounds, from, to, thickness: stroke.thickness }];
+  }
+
+  return null;
+};
+
+// Photos are dithered, everything else thresholded for crisp edges
+const buildBitmap = (obj: fabric.FabricObject, dotsPerPx: number): BitmapElement | null => {
+  const bitmap = renderObjectBitmap(obj, dotsPerPx, obj.type === 'image');
+  if (!bitmap) return null;
+  return { kind: 'bitmap', object: obj, bounds: { x: bitmap.x, y: bitmap.y, width: bitmap.width, height: bitmap.height }, bitmap };
+};
+
+/**
+ * Renders an element's source object as a bitmap, for writers that can't
+ * express the element natively.
+ */
+export const toBitmapElement = (element: ThermalElement, dpi: PrinterDpi): BitmapElement | null =>
+  element.kind === 'bitmap' ? element : buildBitmap(element.object, dpi / DPI);
+
+/**
+ * Lays out a label canvas (from createLabelCanvas) for a thermal printer.
+ */
+export const layoutThermalLabel = (canvas: fabric.StaticCanvas, dpi: PrinterDpi): ThermalLabel => {
+  const dotsPerPx = dpi / DPI;
+  const elements: ThermalElement[] = [];
+
+  canvas.getObjects().forEach(obj => {
+    if (!obj.visible) return;
+
+    let native: ThermalElement[] | null = null;
+    if (!hasEffects(obj)) {
+      if (obj instanceof CodeSymbol) {
+        const code = buildCode(obj, dpi, dotsPerPx);
+        native = code ? [code] : null;
+      } else if (TEXT_TYPES.includes(obj.type)) {
+        const text = buildText(obj as fabric.Text, dotsPerPx);
+        native = text ? [text] : null;
+      } else if (obj.type !== 'image') {
+        native = buildShape(obj, dotsPerPx);
+      }
+    }
+
+    if (native) {
+      elements.push(...native);
+      return;
+    }
+    const bitmap = buildBitmap(obj, dotsPerPx);
+    if (bitmap) elements.push(bitmap);
+  });
+
+  return {
+    width: Math.round(canvas.getWidth() * dotsPerPx),
+    height: Math.round(canvas.getHeight() * dotsPerPx),
+    elements,
+  };
+};
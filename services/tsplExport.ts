@@ -0,0 +1,145 @@
+import { LabelTemplate } from '../types';
+import { createLabelCanvas } from './fabricHelper';
+import { PrintRun } from './printJob';
+import {
+  PrinterDpi, ThermalElement, ThermalLabel, TextElement, BarcodeElement,
+  layoutThermalLabel, offsetRotated, toBitmapElement,
+} from './thermalLayout';
+
+// TSPL/TSPL2 output for TSC printers. Bitmaps are raw bytes inside the
+// command stream, so labels are assembled as chunks and returned as a Blob.
+
+type Chunk = string | Uint8Array;
+
+const CRLF = '\r\n';
+
+// Quotes inside strings are written as \["]
+const quote = (value: string) => `"${value.replace(/"/g, '\\["]')}"`;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const BARCODE_TYPES: Record<BarcodeElement['format'], string> = {
+  CODE128: '128',
+  EAN13: 'EAN13',
+  UPC: 'UPCA',
+  ITF14: 'ITF14',
+  CODE39: '39',
+  CODE93: '93',
+  codabar: 'CODA',
+};
+
+// --- Commands ---
+
+const writeText = (el: TextElement, dpi: PrinterDpi): string => {
+  // Font "0" is the scalable font; its size is given in points
+  const toPoints = (dots: number) => Math.max(1, Math.round(dots * 72 / dpi));
+  const alignment = el.align === 'center' ? 2 : el.align === 'right' ? 3 : 1;
+  const along = el.align === 'center' ? el.blockWidth / 2 : el.align === 'right' ? el.blockWidth : 0;
+
+  return el.lines.map((line, i) => {
+    const { x, y } = offsetRotated(el.origin, el.rotation, along, i * el.linePitch);
+    return `TEXT ${x},${y},"0",${el.rotation},${toPoints(el.fontWidth)},${toPoints(el.fontHeight)},${alignment},${quote(line)}`;
+  }).join(CRLF);
+};
+
+const writeBarcode = (el: BarcodeElement) => {
+  const { x, y } = el.origin;
+  const ratio = el.format === 'CODE128' || el.format === 'EAN13' || el.format === 'UPC' || el.format === 'CODE93' ? 1 : 3;
+  // The printer adds check digits for these
+  const data = el.format === 'EAN13' ? el.value.slice(0, 12)
+    : el.format === 'UPC' ? el.value.slice(0, 11)
+    : el.format === 'ITF14' ? el.value.slice(0, 13)
+    : el.value;
+  const readable = el.showText ? 2 : 0;
+  return `BARCODE ${x},${y},"${BARCODE_TYPES[el.format]}",${el.height},${readable},${el.rotation},${el.module},${el.module * ratio},${quote(data)}`;
+};
+
+/**
+ * TSPL for one element, or null when it has to be sent as a bitmap.
+ * Graphics come back as the command followed by its raw bytes.
+ */
+const writeNative = (el: ThermalElement, dpi: PrinterDpi): Chunk[] | null => {
+  switch (el.kind) {
+    case 'text':
+      // TSPL has no knock-out text
+      return el.reverse ? null : [writeText(el, dpi)];
+    case 'barcode':
+      return [writeBarcode(el)];
+    case 'qr':
+      return [`QRCODE ${el.origin.x},${el.origin.y},M,${clamp(el.module, 1, 10)},A,${el.rotation},M2,${quote(el.value)}`];
+    case 'matrix':
+      if (el.matrixType !== 'datamatrix' || el.shape !== 'square' || el.rotation !== 0) return null;
+      return [`DMATRIX ${el.bounds.x},${el.bounds.y},${el.bounds.width},${el.bounds.height},x${el.module},${quote(el.value)}`];
+    case 'box': {
+      const { x, y, width, height } = el.bounds;
+      const filled = el.thickness >= Math.min(width, height);
+      if (filled) return [el.color === 'black' ? `BAR ${x},${y},${width},${height}` : `ERASE ${x},${y},${width},${height}`];
+      if (el.color !== 'black') return null;
+      return [`BOX ${x},${y},${x + width},${y + height},${el.thickness}${el.radius > 0 ? `,${el.radius}` : ''}`];
+    }
+    case 'ellipse': {
+      if (el.color !== 'black') return null;
+      const { x, y, width, height } = el.bounds;
+      return [width === height ? `CIRCLE ${x},${y},${width},${el.thickness}` : `ELLIPSE ${x},${y},${width},${height},${el.thickness}`];
+    }
+    case 'line':
+      return null;
+    case 'bitmap': {
+      const { bitmap } = el;
+      // TSPL prints 0 bits; mode 1 ORs the image over what is already drawn
+      const data = bitmap.data.map(byte => ~byte & 0xff);
+      return [`BITMAP ${Math.max(0, bitmap.x)},${Math.max(0, bitmap.y)},${bitmap.bytesPerRow},${bitmap.height},1,`, data];
+    }
+  }
+};
+
+/**
+ * Commands for one laid-out label, printed `quantity` times.
+ */
+export const writeTsplLabel = (
+  label: ThermalLabel,
+  dpi: PrinterDpi,
+  size: { width: number; height: number; gap: number }, // mm
+  quantity: number = 1
+): Chunk[] => {
+  const chunks: Chunk[] = [
+    `SIZE ${size.width.toFixed(2)} mm,${size.height.toFixed(2)} mm${CRLF}`,
+    `GAP ${size.gap.toFixed(2)} mm,0 mm${CRLF}`,
+    `REFERENCE 0,0${CRLF}`,
+    `DIRECTION 0${CRLF}`,
+    `CODEPAGE UTF-8${CRLF}`,
+    `CLS${CRLF}`,
+  ];
+  label.elements.forEach(el => {
+    let native = writeNative(el, dpi);
+    if (!native) {
+      const bitmap = toBitmapElement(el, dpi);
+      native = bitmap ? writeNative(bitmap, dpi) : null;
+    }
+    if (native) chunks.push(...native, CRLF);
+  });
+  chunks.push(`PRINT 1,${quantity}${CRLF}`);
+  return chunks;
+};
+
+/**
+ * TSPL for a whole print job, one label per run of identical labels.
+ */
+export const generateTspl = async (
+  template: LabelTemplate,
+  dataRows: (Record<string, string> | null)[],
+  runs: PrintRun[],
+  dpi: PrinterDpi,
+  size: { width: number; height: number; gap: number }
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  for (const run of runs) {
+    const canvas = await createLabelCanvas(template, dataRows[run.rowIndex] ?? null);
+    writeTsplLabel(layoutThermalLabel(canvas, dpi), dpi, size, run.count).forEach(chunk => {
+      parts.push(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+    });
+    canvas.dispose();
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+};
@@ -0,0 +1,193 @@
+import { DateInputOrder, ValueFormat, ValueFormatType } from '../types';
+
+// Per-binding formatting of data values: an object stores a ValueFormat for
+// each field it shows, and the row is formatted for that object before its
+// text or code is filled in. A value that can't be converted prints as it
+// came in, so the problem is visible on output.
+
+export const DEFAULT_VALUE_FORMAT: ValueFormat = { type: 'text' };
+
+export const VALUE_FORMAT_TYPES: { value: ValueFormatType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'date', label: 'Date' },
+];
+
+export const DATE_INPUT_ORDERS: { value: DateInputOrder; label: string }[] = [
+  { value: 'auto', label: 'Auto (ISO or written)' },
+  { value: 'ymd', label: 'Year-Month-Day' },
+  { value: 'dmy', label: 'Day/Month/Year' },
+  { value: 'mdy', label: 'Month/Day/Year' },
+  { value: 'serial', label: 'Excel serial number' },
+];
+
+export const DEFAULT_DATE_OUTPUT = 'DD MMM YYYY';
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30); // Day 0 of Excel's 1900 date system
+const DAY_MS = 86400000;
+
+// --- Numbers ---
+
+/**
+ * Reads "4.5", "1,234.50" or "4,50". A lone comma followed by anything but
+ * three digits is taken as a decimal comma.
+ */
+export const parseNumber = (value: string): number | null => {
+  let text = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(text)) return null;
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot && (lastDot >= 0 || !/^\d{3}$/.test(text.slice(lastComma + 1)))) {
+    text = text.replace(/\./g, '').replace(',', '.'); // Decimal comma
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+};
+
+// Unknown locales and currency codes fall back to the browser default rather than throwing
+const createNumberFormat = (locale: string | undefined, options: Intl.NumberFormatOptions) => {
+  try {
+    return new Intl.NumberFormat(locale || undefined, options);
+  } catch {
+    return new Intl.NumberFormat(undefined, { ...options, style: 'decimal', currency: undefined });
+  }
+};
+
+const formatNumber = (value: string, format: ValueFormat) => {
+  const number = parseNumber(value);
+  if (number === null) return value;
+  const options: Intl.NumberFormatOptions = { useGrouping: format.grouping !== false };
+  if (format.type === 'currency' && format.currency) {
+    options.style = 'currency';
+    options.currency = format.currency.toUpperCase();
+  }
+  if (format.decimals !== undefined && format.decimals >= 0) {
+    options.minimumFractionDigits = options.maximumFractionDigits = format.decimals;
+  }
+  return createNumberFormat(format.locale, options).format(number);
+};
+
+// --- Dates ---
+
+const toFullYear = (year: number, digits: number) => digits <= 2 ? (year < 70 ? 2000 + year : 1900 + year) : year;
+
+const makeDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 31/02 and the like instead of rolling over
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+/**
+ * Parses a date in the given field order. Dates are built in UTC so the
+ * printed day never shifts with the time zone.
+ */
+export const parseDate = (value: string, order: DateInputOrder = 'auto'): Date | null => {
+  const text = value.trim();
+  if (!text) return null;
+
+  if (order === 'serial' || (order === 'auto' && /^\d{5}(\.\d+)?$/.test(text))) {
+    const serial = Number(text);
+    return Number.isFinite(serial) ? new Date(EXCEL_EPOCH + Math.floor(serial) * DAY_MS) : null;
+  }
+
+  const parts = text.match(/\d+/g);
+  const fieldOrder = order === 'auto' ? (/^\d{4}\D/.test(text) ? 'ymd' : null) : order;
+  if (fieldOrder && parts && parts.length >= 3) {
+    const [a, b, c] = parts;
+    const [y, m, d] = fieldOrder === 'ymd' ? [a, b, c] : fieldOrder === 'dmy' ? [c, b, a] : [c, a, b];
+    return makeDate(toFullYear(Number(y), y.length), Number(m), Number(d));
+  }
+
+  // Written dates such as "15 March 2025" or "Mar 15, 2025"
+  if (order === 'auto' && /[a-z]/i.test(text)) {
+    const parsed = new Date(`${text} UTC`);
+    if (Number.isNaN(parsed.getTime())) return null;
+    return makeDate(parsed.getUTCFullYear(), parsed.getUTCMonth() + 1, parsed.getUTCDate());
+  }
+  return null;
+};
+
+const getMonthName = (date: Date, locale: string | undefined, month: 'long' | 'short') => {
+  try {
+    return new Intl.DateTimeFormat(locale || undefined, { month, timeZone: 'UTC' }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat(undefined, { month, timeZone: 'UTC' }).format(date);
+  }
+};
+
+const DATE_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+
+/**
+ * Writes a date with YYYY, YY, MMMM (March), MMM (Mar), MM, M, DD and D.
+ * Text in [brackets] is printed as is.
+ */
+export const formatDate = (date: Date, pattern: string, locale?: string) => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+  return pattern.replace(DATE_TOKENS, (token, literal?: string) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(year).padStart(4, '0');
+      case 'YY': return String(year % 100).padStart(2, '0');
+      case 'MMMM': return getMonthName(date, locale, 'long');
+      case 'MMM': return getMonthName(date, locale, 'short').replace(/\.$/, '');
+      case 'MM': return String(month).padStart(2, '0');
+      case 'M': return String(month);
+      case 'DD': return String(day).padStart(2, '0');
+      default: return String(day);
+    }
+  });
+};
+
+// --- Pipeline ---
+
+// True when the format leaves every value as it is
+export const isDefaultFormat = (format: ValueFormat | undefined) =>
+  !format || (format.type === 'text' && !(format.substringStart && format.substringStart > 1) && !format.substringLength &&
+    !format.padLength && (!format.case || format.case === 'none') && !format.prefix && !format.suffix);
+
+export const formatValue = (value: string, format: ValueFormat | undefined): string => {
+  if (!format) return value;
+  let result = value;
+
+  if ((format.substringStart && format.substringStart > 1) || format.substringLength) {
+    const chars = Array.from(result);
+    const start = Math.max(0, (format.substringStart || 1) - 1);
+    const end = format.substringLength ? start + format.substringLength : chars.length;
+    result = chars.slice(start, end).join('');
+  }
+
+  if (format.type === 'number' || format.type === 'currency') {
+    result = formatNumber(result, format);
+  } else if (format.type === 'date') {
+    const date = parseDate(result, format.dateInput);
+    if (date) result = formatDate(date, format.dateOutput || DEFAULT_DATE_OUTPUT, format.locale);
+  }
+
+  if (format.padLength && format.padLength > result.length) {
+    const padChar = format.padChar || '0';
+    result = format.padEnd ? result.padEnd(format.padLength, padChar) : result.padStart(format.padLength, padChar);
+  }
+
+  if (format.case === 'upper') result = result.toLocaleUpperCase();
+  else if (format.case === 'lower') result = result.toLocaleLowerCase();
+
+  return `${format.prefix || ''}${result}${format.suffix || ''}`;
+};
+
+/**
+ * The row as one object sees it: every field it has a format for is
+ * formatted, everything else passes through.
+ */
+export const formatRow = (row: Record<string, string>, formats: Record<string, ValueFormat> | undefined): Record<string, string> => {
+  if (!formats) return row;
+  const formatted = { ...row };
+  Object.entries(formats).forEach(([key, format]) => {
+    if (Object.hasOwn(formatted, key)) formatted[key] = formatValue(formatted[key], format);
+  });
+  return formatted;
+};
@@ -0,0 +1,174 @@
+import { LabelTemplate } from '../types';
+import { createLabelCanvas } from './fabricHelper';
+import { bitmapToHex } from './monoBitmap';
+import { PrintRun } from './printJob';
+import {
+  PrinterDpi, Rotation, ThermalElement, ThermalLabel, TextElement, BarcodeElement,
+  layoutThermalLabel, toBitmapElement,
+} from './thermalLayout';
+
+// ZPL II output for Zebra printers: text, barcodes and boxes as native
+// commands so the printer renders them at full resolution, bitmaps (^GFA)
+// for everything else.
+
+const ORIENTATION: Record<Rotation, string> = { 0: 'N', 90: 'R', 180: 'I', 270: 'B' };
+
+// Field data goes through ^FH, which reads _XX as a hex byte
+const escapeField = (value: string) =>
+  value.replace(/[\^~_\\]/g, c => `_${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// ^FO rejects negative positions
+const fieldOrigin = (x: number, y: number) => `^FO${Math.max(0, x)},${Math.max(0, y)}`;
+
+// Error correction level bwip-js picks for the same data, from its codeword estimate
+const pdf417Security = (value: string) => {
+  const codewords = Math.ceil(value.length / 2);
+  if (codewords <= 40) return 2;
+  if (codewords <= 160) return 3;
+  if (codewords <= 320) return 4;
+  return 5;
+};
+
+// --- Fields ---
+
+const writeText = (el: TextElement) => {
+  const o = ORIENTATION[el.rotation];
+  const font = `^A0${o},${el.fontHeight},${el.fontWidth}`;
+  const reverse = el.reverse ? '^FR' : '';
+  // A field block keeps alignment and line breaks; plain left-aligned lines don't need one
+  const block = el.lines.length > 1 || el.align !== 'left'
+    ? `^FB${el.blockWidth},${el.lines.length},${el.linePitch - el.fontHeight},${el.align === 'center' ? 'C' : el.align === 'right' ? 'R' : 'L'},0`
+    : '';
+  const data = el.lines.map(escapeField).join('\\&');
+  return `${fieldOrigin(el.bounds.x, el.bounds.y)}${font}${block}${reverse}^FH^FD${data}^FS`;
+};
+
+const writeBarcode = (el: BarcodeElement) => {
+  const o = ORIENTATION[el.rotation];
+  const h = el.height;
+  const f = el.showText ? 'Y' : 'N';
+  let command: string;
+  let data = el.value;
+
+  switch (el.format) {
+    case 'EAN13':
+      command = `^BE${o},${h},${f},N`;
+      data = el.value.slice(0, 12); // Printer adds the check digit
+      break;
+    case 'UPC':
+      command = `^BU${o},${h},${f},N,Y`;
+      data = el.value.slice(0, 11);
+      break;
+    case 'ITF14':
+      command = `^B2${o},${h},${f},N,N`;
+      break;
+    case 'CODE39':
+      command = `^B3${o},N,${h},${f},N`;
+      break;
+    case 'CODE93':
+      command = `^BA${o},${h},${f},N,N`;
+      break;
+    case 'codabar': {
+      // Start/stop characters are parameters in ZPL, not data
+      const match = /^([A-D])(.*)([A-D])$/i.exec(el.value);
+      const [start, body, stop] = match ? [match[1], match[2], match[3]] : ['A', el.value, 'A'];
+      command = `^BK${o},N,${h},${f},N,${start.toUpperCase()},${stop.toUpperCase()}`;
+      data = body;
+      break;
+    }
+    default:
+      command = `^BC${o},${h},${f},N,N,A`; // Automatic subset switching
+  }
+
+  return `^BY${el.module},3,${h}${fieldOrigin(el.bounds.x, el.bounds.y)}${command}^FH^FD${escapeField(data)}^FS`;
+};
+
+/**
+ * ZPL for one element, or null when it has to be sent as a bitmap.
+ */
+const writeNative = (el: ThermalElement): string | null => {
+  switch (el.kind) {
+    case 'text':
+      return writeText(el);
+    case 'barcode':
+      return writeBarcode(el);
+    case 'qr':
+      // ^BQ only prints upright
+      if (el.rotation !== 0) return null;
+      return `${fieldOrigin(el.bounds.x, el.bounds.y)}^BQN,2,${clamp(el.module, 1, 10)}^FH^FDMA,${escapeField(el.value)}^FS`;
+    case 'matrix': {
+      const o = ORIENTATION[el.rotation];
+      const origin = fieldOrigin(el.bounds.x, el.bounds.y);
+      const data = `^FH^FD${escapeField(el.value)}^FS`;
+      if (el.matrixType === 'datamatrix' && el.shape === 'square') return `${origin}^BX${o},${el.module},200${data}`;
+      if (el.matrixType === 'pdf417') {
+        return `^BY${el.module}${origin}^B7${o},${el.module * 3},${pdf417Security(el.value)},${el.columns || ''}${data}`;
+      }
+      if (el.matrixType === 'azteccode') return `${origin}^B0${o},${clamp(el.module, 1, 10)},N,0${data}`;
+      return null; // GS1 DataMatrix needs FNC1 handling; rectangular Data Matrix isn't supported by ^BX
+    }
+    case 'box': {
+      const { x, y, width, height } = el.bounds;
+      const t = Math.max(1, el.thickness);
+      const rounding = el.radius > 0 ? clamp(Math.round(el.radius / (Math.min(width, height) / 2) * 8), 0, 8) : 0;
+      return `${fieldOrigin(x, y)}^GB${Math.max(width, t)},${Math.max(height, t)},${t},${el.color === 'black' ? 'B' : 'W'},${rounding}^FS`;
+    }
+    case 'ellipse': {
+      const { x, y, width, height } = el.bounds;
+      const c = el.color === 'black' ? 'B' : 'W';
+      return width === height
+        ? `${fieldOrigin(x, y)}^GC${width},${el.thickness},${c}^FS`
+        : `${fieldOrigin(x, y)}^GE${width},${height},${el.thickness},${c}^FS`;
+    }
+    case 'line': {
+      const { x, y, width, height } = el.bounds;
+      // R leans right (/), L leans left (\)
+      const lean = (el.to.x - el.from.x) * (el.to.y - el.from.y) < 0 ? 'R' : 'L';
+      return `${fieldOrigin(x, y)}^GD${width},${height},${el.thickness},B,${lean}^FS`;
+    }
+    case 'bitmap': {
+      const { bitmap } = el;
+      const total = bitmap.bytesPerRow * bitmap.height;
+      return `${fieldOrigin(bitmap.x, bitmap.y)}^GFA,${total},${total},${bitmap.bytesPerRow},${bitmapToHex(bitmap)}^FS`;
+    }
+  }
+};
+
+/**
+ * One ^XA..^XZ format for a laid-out label, printed `quantity` times.
+ */
+export const writeZplLabel = (label: ThermalLabel, dpi: PrinterDpi, quantity: number = 1): string => {
+  const lines = ['^XA', '^CI28', `^PW${label.width}`, `^LL${label.height}`, '^LH0,0'];
+  label.elements.forEach(el => {
+    const native = writeNative(el);
+    if (native) {
+      lines.push(native);
+      return;
+    }
+    const bitmap = toBitmapElement(el, dpi);
+    if (bitmap) lines.push(writeNative(bitmap)!);
+  });
+  if (quantity > 1) lines.push(`^PQ${quantity}`);
+  lines.push('^XZ');
+  return lines.join('\n');
+};
+
+/**
+ * ZPL for a whole print job: one format per run of identical labels.
+ */
+export const generateZpl = async (
+  template: LabelTemplate,
+  dataRows: (Record<string, string> | null)[],
+  runs: PrintRun[],
+  dpi: PrinterDpi
+): Promise<string> => {
+  const formats: string[] = [];
+  for (const run of runs) {
+    const canvas = await createLabelCanvas(template, dataRows[run.rowIndex] ?? null);
+    formats.push(writeZplLabel(layoutThermalLabel(canvas, dpi), dpi, run.count));
+    canvas.dispose();
+  }
+  return formats.join('\n') + '\n';
+};
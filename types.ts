@@ -1,8 +1,46 @@
 
+// Die-cut outline of the label within its width x height box
+export type LabelShapeKind = 'rectangle' | 'rounded' | 'circle' | 'ellipse';
+
+export interface LabelShape {
+  kind: LabelShapeKind;
+  cornerRadius: number; // mm, used by 'rounded'
+}
+
 export interface LabelDimensions {
   width: number;
   height: number;
   unit: 'inch' | 'mm' | 'px' | 'cm';
+  shape?: LabelShape; // Missing = rectangle
+}
+
+// 1D symbologies, named after their JsBarcode format identifiers
+export type BarcodeFormat = 'CODE128' | 'EAN13' | 'UPC' | 'ITF14' | 'CODE39' | 'CODE93' | 'codabar';
+
+// 2D matrix and stacked symbologies, named after their bwip-js encoder identifiers
+export type MatrixCodeType = 'datamatrix' | 'gs1datamatrix' | 'pdf417' | 'azteccode';
+
+// How a bound value is turned into printed text. Steps run in the order
+// listed: substring, conversion, padding, case, then prefix and suffix.
+export type ValueFormatType = 'text' | 'number' | 'currency' | 'date';
+export type DateInputOrder = 'auto' | 'ymd' | 'dmy' | 'mdy' | 'serial';
+
+export interface ValueFormat {
+  substringStart?: number; // 1-based first character kept
+  substringLength?: number; // 0 or missing = to the end
+  type: ValueFormatType;
+  locale?: string; // BCP 47 tag for numbers, currency and month names; browser default when empty
+  decimals?: number; // Fixed decimal places; missing = locale/currency default
+  grouping?: boolean; // Thousands separators (default on)
+  currency?: string; // ISO 4217 code
+  dateInput?: DateInputOrder;
+  dateOutput?: string; // Pattern such as "DD MMM YYYY"
+  padLength?: number;
+  padChar?: string;
+  padEnd?: boolean; // Pad on the right instead of the left
+  case?: 'none' | 'upper' | 'lower';
+  prefix?: string;
+  suffix?: string;
 }
 
 export interface LabelObject {
@@ -11,6 +49,8 @@ export interface LabelObject {
   top: number;
   width?: number;
   height?: number;
+  scaleX?: number;
+  scaleY?: number;
   fill?: string;
   stroke?: string;
   strokeWidth?: number;
@@ -18,21 +58,60 @@ export interface LabelObject {
   text?: string;
   fontSize?: number;
   fontFamily?: string;
+  fontWeight?: string | number;
+  fontStyle?: string;
+  underline?: boolean;
+  charSpacing?: number; // Letter spacing in 1/1000 em
+  lineHeight?: number; // Multiple of the font size
+  textCase?: 'none' | 'upper' | 'lower' | 'title'; // Applied when drawn; the text keeps its typed case
+  styles?: { start: number; end: number; style: Record<string, any> }[]; // Per-character overrides
   dataKey?: string; // The crucial binding key
+  valueFormats?: Record<string, ValueFormat>; // Per bound field key
   isBarcode?: boolean;
+  barcodeFormat?: BarcodeFormat; // Defaults to CODE128 when missing
   isQrCode?: boolean; // New property
+  isMatrixCode?: boolean;
+  matrixType?: MatrixCodeType; // Defaults to datamatrix when missing
+  quietZone?: number; // Blank margin around a 2D code, in modules
+  codeColumns?: number; // PDF417 data columns (0 = automatic)
+  codeShape?: 'square' | 'rectangle'; // Data Matrix symbol shape
+  moduleSize?: number; // Narrow bar / module width (X-dimension) in mm
+  barHeight?: number; // Linear barcode bar height in mm
+  showText?: boolean; // Human-readable line under linear barcodes (default on)
+  frameHeight?: number; // Text frame height in px; its width is `width`
+  maxLines?: number; // Text frame line limit (0 = as many as fit)
+  shrinkToFit?: boolean; // Text frame shrinks the font down to minFontSize before cutting
+  minFontSize?: number;
+  ellipsis?: boolean; // Text frame marks cut text with …
   src?: string; // For images
 }
 
+// Layout aids saved with a template, in mm from the label's top-left corner
+export interface LabelGuides {
+  safeZone: number; // Inset from the trim edge that critical content stays inside
+  bleed: number; // Outset past the trim edge that backgrounds extend to
+  vertical: number[]; // x of each vertical guide line
+  horizontal: number[]; // y of each horizontal guide line
+}
+
 export interface LabelTemplate {
   templateName: string;
   dimensions: LabelDimensions;
   objects: LabelObject[];
+  guides?: LabelGuides; // Missing in templates saved before guides existed
+  computedFields?: ComputedField[];
+}
+
+// A field derived from the data row by an expression, bindable like a column
+export interface ComputedField {
+  key: string;
+  expression: string;
 }
 
 export interface DataField {
   label: string;
   value: string;
+  computed?: boolean;
 }
 
 export interface PageLayout {
@@ -44,6 +123,48 @@ export interface PageLayout {
   gapY: number;
 }
 
+// A label sheet as printed by the vendor, all measurements in mm
+export interface SheetDefinition {
+  id: string;
+  name: string;
+  vendor: string;
+  pageWidth: number;
+  pageHeight: number;
+  marginTop: number; // Page edge to the top edge of the first row
+  marginLeft: number; // Page edge to the left edge of the first column
+  labelWidth: number;
+  labelHeight: number;
+  pitchX: number; // Left edge to left edge of neighbouring labels
+  pitchY: number; // Top edge to top edge of neighbouring labels
+  rows: number;
+  cols: number;
+  isCustom?: boolean;
+}
+
+/**
+ * Measured error of one physical printer, from its calibration test page.
+ */
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  offsetX: number; // mm the reference mark prints right of where it should
+  offsetY: number; // mm the reference mark prints below where it should
+  scaleX: number; // Printed length of the horizontal ruler, % of its true length
+  scaleY: number;
+}
+
+/**
+ * A font file uploaded by the user. Each file is one face, selectable under
+ * its own family name.
+ */
+export interface CustomFont {
+  id: string;
+  family: string; // Full name from the font's name table, e.g. "Roboto Bold"
+  fileName: string;
+  format: 'truetype' | 'opentype'; // Of `data`; WOFF uploads are unpacked on import
+  data: string; // Base64 sfnt file
+}
+
 export interface CsvData {
   headers: string[];
   rows: Record<string, string>[];